@@ -0,0 +1,123 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+/**
+ * Migration script to move single-tier bookings onto booking items
+ *
+ * This script:
+ * 1. Finds bookings that still only have the legacy ticketTierId
+ * 2. Creates one booking item per booking (the booking's tier, quantity and unit price)
+ * 3. Links the booking's existing tickets to that item
+ * 4. Is idempotent (safe to run multiple times)
+ *
+ * Required deploy step: run after `prisma db push` and before the new server
+ * starts. The app only reads booking items - until this has run, legacy bookings
+ * can't be completed, release no holds when they expire, and their tickets can't be scanned.
+ *
+ * Run with: npm run migrate:booking-items
+ */
+async function main() {
+  console.log('🔄 Starting booking items backfill migration...\n');
+
+  try {
+    // Step 1: Get legacy bookings that have no items yet
+    const bookings = await prisma.booking.findMany({
+      where: {
+        ticketTierId: {
+          not: null,
+        },
+        items: {
+          none: {},
+        },
+      },
+      include: {
+        ticketTier: true,
+      },
+    });
+
+    console.log(`Found ${bookings.length} legacy bookings to process\n`);
+
+    let migratedCount = 0;
+
+    // Step 2: Create an item for each booking and attach its tickets
+    for (const booking of bookings) {
+      if (!booking.ticketTierId || !booking.ticketTier) {
+        continue;
+      }
+
+      // What the buyer actually paid per ticket, falling back to the tier price
+      const unitPrice = booking.quantity > 0
+        ? new Prisma.Decimal(booking.totalAmount).dividedBy(booking.quantity).toDecimalPlaces(2)
+        : booking.ticketTier.price;
+
+      const linked = await prisma.$transaction(async (tx) => {
+        const item = await tx.bookingItem.create({
+          data: {
+            bookingId: booking.id,
+            ticketTierId: booking.ticketTierId!,
+            quantity: booking.quantity,
+            unitPrice,
+            createdAt: booking.createdAt,
+          },
+        });
+
+        const tickets = await tx.ticket.updateMany({
+          where: {
+            bookingId: booking.id,
+            bookingItemId: null,
+          },
+          data: {
+            bookingItemId: item.id,
+          },
+        });
+
+        return tickets.count;
+      });
+
+      console.log(
+        `✅ Migrated booking ${booking.id}: ` +
+        `${booking.quantity} x "${booking.ticketTier.name}", ${linked} tickets linked`
+      );
+      migratedCount++;
+    }
+
+    console.log('\n📊 Migration Summary:');
+    console.log(`  • Bookings migrated: ${migratedCount}`);
+
+    // Step 3: Verify the migration
+    console.log('\n🔍 Verification: Checking for any unlinked tickets...');
+
+    const unlinkedTickets = await prisma.ticket.count({
+      where: {
+        bookingItemId: null,
+      },
+    });
+
+    if (unlinkedTickets === 0) {
+      console.log('✅ Verification passed: All tickets belong to a booking item!');
+    } else {
+      console.error(`❌ Verification failed: Found ${unlinkedTickets} tickets without a booking item`);
+      process.exit(1);
+    }
+
+    console.log('\n🎉 Migration completed successfully!');
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Migration script error:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+    console.log('\n👋 Prisma client disconnected');
+  });
@@ -10,11 +10,13 @@ const prisma = new PrismaClient();
  * Migration script to backfill quantitySold field
  * 
  * This script:
- * 1. Counts all PAID bookings per ticket tier
- * 2. Updates quantitySold for each tier based on the sum of quantities from PAID bookings
+ * 1. Counts all PAID booking items per ticket tier
+ * 2. Updates quantitySold for each tier based on the sum of quantities from PAID booking items
  * 3. Is idempotent (safe to run multiple times)
  * 
- * Run with: npx ts-node prisma/migrate-quantity-sold.ts
+ * Counts booking items only, so run it after migrate-booking-items.
+ * 
+ * Run with: npm run migrate:quantity-sold
  */
 async function main() {
   console.log('🔄 Starting quantitySold backfill migration...\n');
@@ -23,9 +25,11 @@ async function main() {
     // Step 1: Get all ticket tiers
     const tiers = await prisma.ticketTier.findMany({
       include: {
-        bookings: {
+        bookingItems: {
           where: {
-            status: 'PAID',
+            booking: {
+              status: 'PAID',
+            },
           },
           select: {
             quantity: true,
@@ -41,8 +45,8 @@ async function main() {
 
     // Step 2: Calculate and update quantitySold for each tier
     for (const tier of tiers) {
-      // Calculate total quantity sold from PAID bookings
-      const totalSold = tier.bookings.reduce((sum, booking) => sum + booking.quantity, 0);
+      // Calculate total quantity sold from PAID booking items
+      const totalSold = tier.bookingItems.reduce((sum, item) => sum + item.quantity, 0);
 
       // Get current quantitySold (should be 0 for existing data, but check anyway)
       const currentQuantitySold = tier.quantitySold || 0;
@@ -59,7 +63,7 @@ async function main() {
         console.log(
           `✅ Updated tier "${tier.name}" (${tier.id}): ` +
           `quantitySold: ${currentQuantitySold} → ${totalSold} ` +
-          `(from ${tier.bookings.length} PAID bookings)`
+          `(from ${tier.bookingItems.length} PAID booking items)`
         );
         updatedCount++;
       } else {
@@ -81,9 +85,11 @@ async function main() {
     
     const verificationTiers = await prisma.ticketTier.findMany({
       include: {
-        bookings: {
+        bookingItems: {
           where: {
-            status: 'PAID',
+            booking: {
+              status: 'PAID',
+            },
           },
           select: {
             quantity: true,
@@ -94,7 +100,7 @@ async function main() {
 
     let discrepancies = 0;
     for (const tier of verificationTiers) {
-      const expectedSold = tier.bookings.reduce((sum, booking) => sum + booking.quantity, 0);
+      const expectedSold = tier.bookingItems.reduce((sum, item) => sum + item.quantity, 0);
       if (tier.quantitySold !== expectedSold) {
         console.error(
           `❌ Discrepancy found in tier "${tier.name}" (${tier.id}): ` +
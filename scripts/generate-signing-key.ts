@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+
+/**
+ * Generates an Ed25519 key pair for signing ticket QR codes
+ *
+ * Prints .env lines for the new key. To rotate, move the current key's public
+ * half into TICKET_VERIFY_PUBLIC_KEYS before replacing it, so tickets already
+ * issued keep verifying at the gate.
+ *
+ * Run with: npx ts-node scripts/generate-signing-key.ts [keyId]
+ */
+function generateSigningKey() {
+  const keyId = process.argv[2] || `k${new Date().toISOString().slice(0, 10).replace(/-/g, '')}`;
+
+  if (keyId.includes('.')) {
+    console.error('❌ Key ID must not contain "."');
+    process.exit(1);
+  }
+
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+  // Single-line PEM ("\n" escaped) so it fits in .env files
+  const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString().trim().replace(/\n/g, '\\n');
+  const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString().trim().replace(/\n/g, '\\n');
+
+  console.log('🔑 New ticket signing key generated\n');
+  console.log(`TICKET_SIGNING_KEY_ID="${keyId}"`);
+  console.log(`TICKET_SIGNING_PRIVATE_KEY="${privatePem}"`);
+  console.log(`\n# Public key (add to TICKET_VERIFY_PUBLIC_KEYS when this key is retired):`);
+  console.log(`# "${keyId}": "${publicPem}"\n`);
+}
+
+generateSigningKey();
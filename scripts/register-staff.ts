@@ -0,0 +1,78 @@
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { normalizePhoneNumber, validatePhoneNumber } from '../src/utils/phoneNormalizer';
+
+// Load environment variables
+dotenv.config();
+
+const prisma = new PrismaClient();
+
+/**
+ * Registers a door staff member for an event and prints their scanner token
+ *
+ * The token is shown once and only its SHA-256 hash is stored.
+ * Re-running for the same event + phone rotates the token.
+ *
+ * Run with: npx ts-node scripts/register-staff.ts <eventId> <phone> [gate] [name]
+ */
+async function registerStaff() {
+  const [eventId, rawPhone, gate, name] = process.argv.slice(2);
+
+  if (!eventId || !rawPhone) {
+    console.error('Usage: npx ts-node scripts/register-staff.ts <eventId> <phone> [gate] [name]');
+    process.exit(1);
+  }
+
+  try {
+    const event = await prisma.event.findUnique({ where: { id: eventId } });
+
+    if (!event) {
+      console.error(`❌ Event not found: ${eventId}`);
+      process.exit(1);
+    }
+
+    if (!validatePhoneNumber(rawPhone)) {
+      console.error(`❌ Invalid phone number: ${rawPhone} (expected a Kenyan number, e.g. 0712345678)`);
+      process.exit(1);
+    }
+
+    // Same 254xxxxxxxxx format the staff lookup uses
+    const phoneNumber = normalizePhoneNumber(rawPhone);
+
+    const token = crypto.randomBytes(24).toString('base64url');
+    const accessTokenHash = crypto.createHash('sha256').update(token).digest('hex');
+
+    const staff = await prisma.eventStaff.upsert({
+      where: {
+        eventId_phoneNumber: { eventId, phoneNumber },
+      },
+      create: {
+        eventId,
+        phoneNumber,
+        gate: gate || 'Main Gate',
+        name: name || null,
+        accessTokenHash,
+      },
+      update: {
+        accessTokenHash,
+        isActive: true,
+        ...(gate && { gate }),
+        ...(name && { name }),
+      },
+    });
+
+    console.log(`✅ Staff registered for "${event.title}"`);
+    console.log(`   Staff ID: ${staff.id}`);
+    console.log(`   Phone:    ${staff.phoneNumber}`);
+    console.log(`   Gate:     ${staff.gate}`);
+    console.log(`\n🔑 Scanner token (shown once): ${token}\n`);
+  } catch (error) {
+    console.error('❌ Staff registration failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+registerStaff();
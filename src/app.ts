@@ -3,6 +3,9 @@ import dotenv from 'dotenv';
 import webhookRoutes from './routes/webhook.routes';
 import whatsappRoutes from './routes/whatsapp.routes';
 import paymentRoutes from './routes/payment.routes';
+import scannerRoutes from './routes/scanner.routes';
+import adminRoutes from './routes/admin.routes';
+import { captureRawBody } from './middleware/metaSignature.middleware';
 import prisma from './config/prisma';
 import logger from './config/logger';
 
@@ -11,13 +14,24 @@ dotenv.config();
 
 const app = express();
 
+// Behind a reverse proxy, trust it so req.ip is the real client (used by webhook allowlists)
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set(
+    'trust proxy',
+    trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy
+  );
+}
+
 // Middleware
-app.use(express.json());
+app.use(express.json({ verify: captureRawBody })); // Keep raw body for webhook signatures
 app.use(express.urlencoded({ extended: true }));
 
 // Routes
 app.use('/webhooks', webhookRoutes);
 app.use('/payment', paymentRoutes); // Payment success redirect
+app.use('/scanner', scannerRoutes); // Door staff check-in
+app.use('/admin', adminRoutes); // Support & operations
 app.use('/', whatsappRoutes); // WhatsApp webhook at /webhook
 
 // Root endpoint
@@ -38,6 +52,20 @@ app.get('/', (req, res) => {
       payment: {
         success: '/payment/success (GET - redirects to WhatsApp)',
       },
+      scanner: {
+        keys: '/scanner/keys (GET - requires staff token)',
+        redeem: '/scanner/redeem (POST - requires staff token)',
+        manifest: '/scanner/manifest (GET - signed offline ticket list)',
+        sync: '/scanner/sync (POST - upload offline scans)',
+      },
+      admin: {
+        reconciliation: '/admin/reconciliation/:provider (intasend|pesapal - GET report / POST run - requires admin key)',
+        paymentTimeline: '/admin/bookings/:bookingId/payments (GET - requires admin key)',
+        paymentExceptions: '/admin/payment-exceptions (GET list, POST /:id/resolve - requires admin key)',
+        deadLetters: '/admin/dead-letters (GET list, POST /:id/replay - requires admin key)',
+        promoCodes: '/admin/promo-codes (GET list, POST create, POST /:id/deactivate - requires admin key)',
+        metrics: '/admin/metrics (GET - requires admin key)',
+      },
     },
   });
 });
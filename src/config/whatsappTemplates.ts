@@ -0,0 +1,46 @@
+import { WaTemplateKey } from '../types/whatsapp';
+
+const TEMPLATE_LANGUAGE = process.env.WA_TEMPLATE_LANGUAGE || 'en';
+
+/**
+ * An approved message template and the parameters it expects
+ */
+export interface WaTemplateDefinition {
+  name: string; // Name as approved in WhatsApp Manager
+  language: string;
+  headerImage: boolean;
+  bodyParams: number;
+  urlButtons: number;
+}
+
+/**
+ * Templates approved for this business number
+ * Templates are the only messages Meta delivers outside the 24-hour customer service
+ * window. Keep names, languages and parameter counts in sync with WhatsApp Manager.
+ */
+export const WA_TEMPLATES: Record<WaTemplateKey, WaTemplateDefinition> = {
+  // "Your booking for {{1}} on {{2}} is confirmed: {{3}}. Your ticket codes: {{4}}"
+  PAYMENT_CONFIRMED: {
+    name: 'payment_confirmed',
+    language: TEMPLATE_LANGUAGE,
+    headerImage: false,
+    bodyParams: 4,
+    urlButtons: 0,
+  },
+  // [QR image] "Your ticket for {{1}} ({{2}}). Ticket code: {{3}}"
+  TICKET: {
+    name: 'ticket_delivery',
+    language: TEMPLATE_LANGUAGE,
+    headerImage: true,
+    bodyParams: 3,
+    urlButtons: 0,
+  },
+  // "Update on your booking: {{1}}"
+  BOOKING_UPDATE: {
+    name: 'booking_update',
+    language: TEMPLATE_LANGUAGE,
+    headerImage: false,
+    bodyParams: 1,
+    urlButtons: 0,
+  },
+};
@@ -0,0 +1,308 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import intaSendReconciliationJob from '../jobs/intasendReconciliation.job';
+import pesaPalReconciliationJob from '../jobs/pesapalReconciliation.job';
+import { AppError } from '../utils/AppError';
+import { paymentLogService, paymentVerificationService, ExceptionResolution } from '../services/payment';
+import { getCounters } from '../utils/metrics';
+import outboundQueueService from '../services/outboundQueue.service';
+import whatsappService from '../services/whatsapp.service';
+import promoService from '../services/promo.service';
+
+// Reconciliation jobs by provider path segment
+const RECONCILIATION_JOBS = {
+  intasend: intaSendReconciliationJob,
+  pesapal: pesaPalReconciliationJob,
+};
+
+/**
+ * AdminController handles support/operations requests
+ */
+class AdminController {
+  /**
+   * Looks up the reconciliation job for the :provider route param
+   */
+  private getReconciliationJob(req: Request, res: Response) {
+    const provider = String(req.params.provider).toLowerCase();
+    const job = RECONCILIATION_JOBS[provider as keyof typeof RECONCILIATION_JOBS];
+
+    if (!job) {
+      res.status(404).json({ status: 'error', message: `Unknown payment provider: ${provider}` });
+      return null;
+    }
+
+    return job;
+  }
+
+  /**
+   * Returns the latest reconciliation report for a payment provider
+   * GET /admin/reconciliation/:provider
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async getReconciliation(req: Request, res: Response): Promise<void> {
+    const job = this.getReconciliationJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    const report = job.getLastReport();
+
+    if (!report) {
+      res.status(404).json({ status: 'error', message: 'No reconciliation has run yet' });
+      return;
+    }
+
+    res.json({ status: 'ok', report });
+  }
+
+  /**
+   * Runs a reconciliation pass for a payment provider now and returns its report
+   * POST /admin/reconciliation/:provider
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async runReconciliation(req: Request, res: Response): Promise<void> {
+    const job = this.getReconciliationJob(req, res);
+    if (!job) {
+      return;
+    }
+
+    try {
+      const report = await job.run();
+
+      if (!report) {
+        res.status(409).json({ status: 'error', message: 'Reconciliation already in progress' });
+        return;
+      }
+
+      res.json({ status: 'ok', report });
+    } catch (error) {
+      logger.error(`Manual ${req.params.provider} reconciliation failed:`, error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Returns the payment timeline for a booking (every callback and status lookup)
+   * GET /admin/bookings/:bookingId/payments
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async getPaymentTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const timeline = await paymentLogService.getTimeline(String(req.params.bookingId));
+
+      if (!timeline) {
+        res.status(404).json({ status: 'error', message: 'Booking not found' });
+        return;
+      }
+
+      res.json({ status: 'ok', ...timeline });
+    } catch (error) {
+      logger.error(`Failed to load payment timeline for booking ${req.params.bookingId}:`, error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Lists payment exceptions (amount/currency mismatches)
+   * GET /admin/payment-exceptions?status=OPEN|RESOLVED
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async listPaymentExceptions(req: Request, res: Response): Promise<void> {
+    const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+
+    if (status && status !== 'OPEN' && status !== 'RESOLVED') {
+      res.status(400).json({ status: 'error', message: 'status must be OPEN or RESOLVED' });
+      return;
+    }
+
+    try {
+      const exceptions = await paymentVerificationService.listExceptions(status as 'OPEN' | 'RESOLVED' | undefined);
+      res.json({ status: 'ok', exceptions });
+    } catch (error) {
+      logger.error('Failed to list payment exceptions:', error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Resolves a payment exception
+   * POST /admin/payment-exceptions/:id/resolve { resolution: ISSUE_TICKETS|REFUND|DISMISS, notes? }
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async resolvePaymentException(req: Request, res: Response): Promise<void> {
+    const resolution = req.body?.resolution as ExceptionResolution;
+    const notes = typeof req.body?.notes === 'string' ? req.body.notes : undefined;
+
+    try {
+      if (!['ISSUE_TICKETS', 'REFUND', 'DISMISS'].includes(resolution)) {
+        throw new AppError('resolution must be ISSUE_TICKETS, REFUND or DISMISS', 400);
+      }
+
+      const exception = await paymentVerificationService.resolveException(
+        String(req.params.id),
+        resolution,
+        notes
+      );
+
+      res.json({ status: 'ok', exception });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      logger.error(`Failed to resolve payment exception ${req.params.id}:`, error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Returns in-process operational counters
+   * GET /admin/metrics
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async getMetrics(req: Request, res: Response): Promise<void> {
+    res.json({
+      status: 'ok',
+      counters: getCounters(),
+      gauges: {
+        whatsapp_send_backlog: outboundQueueService.getBacklog(),
+      },
+    });
+  }
+
+  /**
+   * Lists outbound WhatsApp messages that failed after every retry
+   * GET /admin/dead-letters?status=PENDING|REPLAYED
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async listDeadLetters(req: Request, res: Response): Promise<void> {
+    const status = req.query.status ? String(req.query.status).toUpperCase() : undefined;
+
+    if (status && status !== 'PENDING' && status !== 'REPLAYED') {
+      res.status(400).json({ status: 'error', message: 'status must be PENDING or REPLAYED' });
+      return;
+    }
+
+    try {
+      const deadLetters = await outboundQueueService.listDeadLetters(status as 'PENDING' | 'REPLAYED' | undefined);
+      res.json({ status: 'ok', deadLetters });
+    } catch (error) {
+      logger.error('Failed to list dead letters:', error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Resends a dead-lettered WhatsApp message
+   * POST /admin/dead-letters/:id/replay
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async replayDeadLetter(req: Request, res: Response): Promise<void> {
+    try {
+      const deadLetter = await whatsappService.replayDeadLetter(String(req.params.id));
+      res.json({ status: 'ok', deadLetter });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      logger.error(`Failed to replay dead letter ${req.params.id}:`, error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Lists promo codes
+   * GET /admin/promo-codes
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async listPromoCodes(req: Request, res: Response): Promise<void> {
+    try {
+      const promoCodes = await promoService.listPromoCodes();
+      res.json({ status: 'ok', promoCodes });
+    } catch (error) {
+      logger.error('Failed to list promo codes:', error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Creates a promo code
+   * POST /admin/promo-codes { code, discountType: PERCENTAGE|FIXED, discountValue, maxUses?,
+   * maxUsesPerUser?, validFrom?, validUntil?, tierIds? }
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async createPromoCode(req: Request, res: Response): Promise<void> {
+    const body = req.body || {};
+    const optionalDate = (value: unknown) => (value ? new Date(String(value)) : undefined);
+
+    try {
+      if (body.discountType !== 'PERCENTAGE' && body.discountType !== 'FIXED') {
+        throw new AppError('discountType must be PERCENTAGE or FIXED', 400);
+      }
+
+      const validFrom = optionalDate(body.validFrom);
+      const validUntil = optionalDate(body.validUntil);
+      if ((validFrom && isNaN(validFrom.getTime())) || (validUntil && isNaN(validUntil.getTime()))) {
+        throw new AppError('validFrom and validUntil must be ISO dates', 400);
+      }
+
+      if (body.tierIds !== undefined && !Array.isArray(body.tierIds)) {
+        throw new AppError('tierIds must be an array of ticket tier IDs', 400);
+      }
+
+      const promoCode = await promoService.createPromoCode({
+        code: String(body.code || ''),
+        discountType: body.discountType,
+        discountValue: Number(body.discountValue),
+        maxUses: body.maxUses !== undefined ? Number(body.maxUses) : undefined,
+        maxUsesPerUser: body.maxUsesPerUser !== undefined ? Number(body.maxUsesPerUser) : undefined,
+        validFrom,
+        validUntil,
+        tierIds: body.tierIds?.map(String),
+      });
+
+      res.status(201).json({ status: 'ok', promoCode });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      logger.error('Failed to create promo code:', error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Stops a promo code from being used on new bookings
+   * POST /admin/promo-codes/:id/deactivate
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async deactivatePromoCode(req: Request, res: Response): Promise<void> {
+    try {
+      const promoCode = await promoService.deactivatePromoCode(String(req.params.id));
+      res.json({ status: 'ok', promoCode });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+      logger.error(`Failed to deactivate promo code ${req.params.id}:`, error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+}
+
+// Export singleton instance
+export default new AdminController();
@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import logger from '../config/logger';
+import { AppError } from '../utils/AppError';
+import {
+  redemptionService,
+  scannerSyncService,
+  RedemptionError,
+  StaffContext,
+} from '../services/scanner';
+import ticketSigningService from '../services/assets/signing.service';
+
+/**
+ * ScannerController handles door staff check-in requests
+ */
+class ScannerController {
+  /**
+   * Returns the public keys gate devices need to verify ticket QR codes offline
+   * GET /scanner/keys
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async getKeys(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(ticketSigningService.getPublicKeys());
+    } catch (error) {
+      logger.error('Failed to load ticket signing keys:', error);
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Redeems a scanned ticket
+   * POST /scanner/redeem { uniqueCode, manualEntry? } (signed QR token, or a typed XXXX-XXXX
+   * code with manualEntry: true)
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async redeem(req: Request, res: Response): Promise<void> {
+    const staff: StaffContext = res.locals.staff;
+    const uniqueCode = req.body?.uniqueCode;
+    const manualEntry = req.body?.manualEntry === true;
+
+    try {
+      if (!uniqueCode || typeof uniqueCode !== 'string') {
+        throw new AppError('Missing uniqueCode', 400);
+      }
+
+      const result = await redemptionService.redeemTicket(uniqueCode, staff, manualEntry);
+
+      res.json({
+        status: 'redeemed',
+        ticket: result,
+      });
+    } catch (error) {
+      if (error instanceof RedemptionError) {
+        logger.info(`Ticket rejected at gate ${staff.gate}: ${error.message}`, { code: error.code });
+        res.status(error.statusCode).json({
+          status: 'rejected',
+          code: error.code,
+          message: error.message,
+          ...(error.previousRedemption && { previousRedemption: error.previousRedemption }),
+        });
+        return;
+      }
+
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+
+      logger.error('Ticket redemption error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        uniqueCode,
+        staffId: staff?.id,
+      });
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Downloads the signed ticket manifest for offline scanning
+   * GET /scanner/manifest
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async getManifest(req: Request, res: Response): Promise<void> {
+    const staff: StaffContext = res.locals.staff;
+
+    try {
+      const signed = await scannerSyncService.buildManifest(staff);
+
+      res.json({
+        ...signed,
+        publicKeys: ticketSigningService.getPublicKeys(),
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+
+      logger.error('Scanner manifest error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        staffId: staff?.id,
+      });
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+
+  /**
+   * Uploads scans recorded while offline
+   * POST /scanner/sync { deviceId, scans: [{ scanId, code, scannedAt, manualEntry? }] }
+   * @param req - Express request
+   * @param res - Express response
+   */
+  async syncScans(req: Request, res: Response): Promise<void> {
+    const staff: StaffContext = res.locals.staff;
+    const { deviceId, scans } = req.body || {};
+
+    try {
+      const results = await scannerSyncService.mergeScans(staff, deviceId, scans);
+
+      res.json({
+        status: 'ok',
+        accepted: results.filter((r) => r.outcome === 'ACCEPTED').length,
+        conflicts: results.filter((r) => r.outcome === 'CONFLICT').length,
+        results,
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'error', message: error.message });
+        return;
+      }
+
+      logger.error('Scanner sync error:', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+        staffId: staff?.id,
+        deviceId,
+      });
+      res.status(500).json({ status: 'error', message: 'Internal error' });
+    }
+  }
+}
+
+// Export singleton instance
+export default new ScannerController();
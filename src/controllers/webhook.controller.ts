@@ -2,77 +2,19 @@ import { Request, Response } from 'express';
 import logger from '../config/logger';
 import { AppError } from '../utils/AppError';
 import ticketService from '../services/ticket.service';
-import { pesaPalService } from '../services/payment';
-import whatsappService from '../services/whatsapp.service';
+import {
+  intaSendService,
+  pesaPalService,
+  paymentLogService,
+  paymentVerificationService,
+} from '../services/payment';
 import prisma from '../config/prisma';
+import { incrementCounter } from '../utils/metrics';
 
 /**
  * WebhookController handles payment provider webhooks
  */
 class WebhookController {
-  /**
-   * Sends WhatsApp confirmation message after successful payment
-   * @param bookingId - The booking ID
-   */
-  private async sendPaymentConfirmation(bookingId: string): Promise<void> {
-    try {
-      // Fetch booking with all related data
-      const booking = await prisma.booking.findUnique({
-        where: { id: bookingId },
-        include: {
-          user: true,
-          tickets: true,
-          ticketTier: {
-            include: {
-              event: true,
-            },
-          },
-        },
-      });
-
-      if (!booking) {
-        logger.warn(`Cannot send confirmation: Booking ${bookingId} not found`);
-        return;
-      }
-
-      // Format ticket codes
-      const ticketCodes = booking.tickets.map((t) => t.uniqueCode).join('\n');
-
-      // Format event date
-      const eventDate = new Date(booking.ticketTier.event.startTime).toLocaleDateString('en-KE', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-
-      // Build confirmation message
-      const message =
-        `✅ *Booking Confirmed!*\n\n` +
-        `*Event:* ${booking.ticketTier.event.title}\n` +
-        `*Date:* ${eventDate}\n` +
-        `*Venue:* ${booking.ticketTier.event.venue}\n` +
-        `*Tier:* ${booking.ticketTier.name}\n` +
-        `*Quantity:* ${booking.quantity}\n` +
-        `*Total:* KES ${booking.totalAmount}\n\n` +
-        `*Your Ticket Codes:*\n${ticketCodes}\n\n` +
-        `Show these codes at the venue entrance. Keep them safe! 🎫\n\n` +
-        `Powered by Dumu Technologies 🚀 https://dumu-website.vercel.app/`;
-
-      // Send WhatsApp message
-      await whatsappService.sendText(booking.user.phoneNumber, message);
-
-      logger.info(`Payment confirmation sent to ${booking.user.phoneNumber} for booking ${bookingId}`);
-    } catch (error) {
-      // Log error but don't throw - payment is already processed
-      logger.error(`Failed to send payment confirmation for booking ${bookingId}:`, {
-        error: error instanceof Error ? error.message : 'Unknown error',
-        stack: error instanceof Error ? error.stack : undefined,
-      });
-    }
-  }
   /**
    * Handles IntaSend webhook notifications
    * @param req - Express request
@@ -80,21 +22,33 @@ class WebhookController {
    */
   async handleIntaSend(req: Request, res: Response): Promise<void> {
     try {
-      // Log entire payload for debugging
-      logger.info('IntaSend webhook received:', JSON.stringify(req.body, null, 2));
+      // The challenge is a shared secret (checked by verifyIntaSendWebhook) - keep it out of logs
+      const { challenge, ...payload } = req.body;
+      const { state, api_ref, invoice_id } = payload;
 
-      const { challenge, state, api_ref, invoice_id, account } = req.body;
+      // Log entire payload for debugging
+      logger.info('IntaSend webhook received:', JSON.stringify(payload, null, 2));
+
+      // Persist every callback; a replay of an event we already handled is acknowledged only
+      const logEntry = await paymentLogService.record({
+        provider: 'INTASEND',
+        source: 'WEBHOOK',
+        reference: invoice_id || 'UNKNOWN',
+        state,
+        bookingId: api_ref,
+        rawResponse: payload,
+      });
 
-      // Security check: Verify challenge
-      if (challenge !== 'complete') {
-        logger.warn('IntaSend webhook challenge mismatch:', challenge);
-        res.status(400).send('Invalid challenge');
+      if (logEntry?.processedAt) {
+        logger.info(`IntaSend webhook replay ignored: invoiceId=${invoice_id}, state=${state}`);
+        res.send('OK');
         return;
       }
 
       // Only process COMPLETE payments
       if (state !== 'COMPLETE') {
         logger.info(`IntaSend webhook: Payment not complete, state=${state}`);
+        await paymentLogService.markProcessed(logEntry);
         res.send('OK');
         return;
       }
@@ -106,22 +60,46 @@ class WebhookController {
         return;
       }
 
-      // Complete the booking
-      logger.info(`Processing IntaSend payment: bookingId=${api_ref}, invoiceId=${invoice_id}`);
-      
-      await ticketService.completeBooking(
-        api_ref, // bookingId
-        invoice_id, // paymentRef
-        account // paymentPhone (optional)
-      );
+      // Never trust the callback body: re-check the invoice with IntaSend
+      const payment = await intaSendService.getPaymentStatus(invoice_id);
 
-      logger.info(`IntaSend booking completed: ${api_ref}`);
+      if (payment.state !== 'COMPLETE') {
+        incrementCounter('intasend_webhook_unverified', { reason: 'not_complete' });
+        logger.warn(`IntaSend webhook claims COMPLETE but invoice ${invoice_id} is ${payment.state}`);
+        res.send('OK');
+        return;
+      }
 
-      // Send WhatsApp confirmation (non-blocking)
-      this.sendPaymentConfirmation(api_ref).catch((err) => {
-        logger.error('Failed to send IntaSend payment confirmation:', err);
+      if (payment.apiRef && payment.apiRef !== api_ref) {
+        incrementCounter('intasend_webhook_unverified', { reason: 'reference_mismatch' });
+        logger.error(`IntaSend webhook api_ref ${api_ref} does not match invoice ${invoice_id} (api_ref=${payment.apiRef})`);
+        await paymentLogService.markProcessed(logEntry);
+        res.send('OK');
+        return;
+      }
+
+      // Issue tickets only if the amount and currency cover the booking
+      logger.info(`Processing IntaSend payment: bookingId=${api_ref}, invoiceId=${invoice_id}`);
+
+      const outcome = await paymentVerificationService.settle({
+        bookingId: api_ref,
+        provider: 'INTASEND',
+        paymentReference: payment.invoiceId,
+        amount: payment.amount,
+        currency: payment.currency,
+        paymentPhone: payment.account,
       });
 
+      logger.info(`IntaSend payment settled: booking=${api_ref}, outcome=${outcome}`);
+      await paymentLogService.markProcessed(logEntry);
+
+      // Send WhatsApp confirmation (non-blocking); a duplicate payment's owner already has tickets
+      if (outcome !== 'DUPLICATE_PAYMENT') {
+        ticketService.sendPaymentConfirmation(api_ref).catch((err) => {
+          logger.error('Failed to send IntaSend payment confirmation:', err);
+        });
+      }
+
       // IntaSend expects simple "OK" response
       res.send('OK');
     } catch (error) {
@@ -190,13 +168,33 @@ class WebhookController {
 
       // Check if payment is completed
       const paymentStatus = transactionStatus.payment_status_description || transactionStatus.status;
+
+      // Persist the IPN with its verified status; a replay we already handled is acknowledged only
+      const logEntry = await paymentLogService.record({
+        provider: 'PESAPAL',
+        source: 'WEBHOOK',
+        reference: orderTrackingId,
+        state: paymentStatus,
+        bookingId: transactionStatus.merchant_reference || transactionStatus.order_merchant_reference,
+        rawResponse: { query: req.query, body: req.body ?? null },
+      });
+
+      if (logEntry?.processedAt) {
+        logger.info(`PesaPal IPN replay ignored: orderTrackingId=${orderTrackingId}, status=${paymentStatus}`);
+        res.json({
+          orderNotificationType: orderNotificationType || 'IPN',
+          orderTrackingId,
+          status: 200,
+        });
+        return;
+      }
       
       if (paymentStatus === 'Completed' || paymentStatus === 'COMPLETED') {
-        // Extract booking ID from merchant reference
+        // Extract booking ID from merchant reference, falling back to the stored order
         const bookingId = 
           transactionStatus.order_merchant_reference || 
           transactionStatus.merchant_reference ||
-          transactionStatus.confirmation_code;
+          (await prisma.booking.findUnique({ where: { orderTrackingId } }))?.id;
 
         if (!bookingId) {
           logger.error('PesaPal webhook: Payment completed but no booking ID found', transactionStatus);
@@ -211,23 +209,30 @@ class WebhookController {
 
         logger.info(`Processing PesaPal payment: bookingId=${bookingId}, paymentRef=${paymentRef}`);
 
-        // Complete the booking
-        await ticketService.completeBooking(
+        // Issue tickets only if the amount and currency cover the booking
+        const outcome = await paymentVerificationService.settle({
           bookingId,
-          paymentRef,
-          transactionStatus.phone_number // Optional payment phone
-        );
+          provider: 'PESAPAL',
+          paymentReference: paymentRef,
+          amount: transactionStatus.amount !== undefined ? Number(transactionStatus.amount) : undefined,
+          currency: transactionStatus.currency,
+          paymentPhone: transactionStatus.phone_number, // Optional payment phone
+        });
 
-        logger.info(`PesaPal booking completed: ${bookingId}`);
+        logger.info(`PesaPal payment settled: booking=${bookingId}, outcome=${outcome}`);
 
-        // Send WhatsApp confirmation (non-blocking)
-        this.sendPaymentConfirmation(bookingId).catch((err) => {
-          logger.error('Failed to send PesaPal payment confirmation:', err);
-        });
+        // Send WhatsApp confirmation (non-blocking); a duplicate payment's owner already has tickets
+        if (outcome !== 'DUPLICATE_PAYMENT') {
+          ticketService.sendPaymentConfirmation(bookingId).catch((err) => {
+            logger.error('Failed to send PesaPal payment confirmation:', err);
+          });
+        }
       } else {
         logger.info(`PesaPal payment not completed: status=${paymentStatus}`);
       }
 
+      await paymentLogService.markProcessed(logEntry);
+
       // PesaPal requires specific response format to stop retrying
       res.json({
         orderNotificationType: orderNotificationType || 'IPN',
@@ -2,17 +2,27 @@ import { Request, Response } from 'express';
 import logger from '../config/logger';
 import { AppError } from '../utils/AppError';
 import whatsappService from '../services/whatsapp.service';
+import messageIdempotencyService from '../services/messageIdempotency.service';
+import inboundQueueService from '../services/inboundQueue.service';
+import outboundMessageService from '../services/outboundMessage.service';
+import ticketService from '../services/ticket.service';
 import conversationHandler from '../handlers/conversation.handler';
+import { incrementCounter } from '../utils/metrics';
 import {
   WaWebhookPayload,
   WaMessage,
   WaContact,
+  WaStatus,
 } from '../types/whatsapp';
 
 /**
  * WhatsAppController handles webhook verification and incoming messages
  */
 class WhatsAppController {
+  constructor() {
+    inboundQueueService.register(({ message, contact }) => this.processMessage(message, contact));
+  }
+
   /**
    * Verifies the webhook with Meta
    * GET /webhook?hub.mode=subscribe&hub.verify_token=...&hub.challenge=...
@@ -55,9 +65,116 @@ class WhatsAppController {
     }
   }
 
+  /**
+   * Handles a single inbound message
+   * Claims the message ID, marks it read, extracts the body and passes it to the ConversationHandler
+   * @param message - The inbound message
+   * @param contact - The sender's contact entry, if Meta sent one
+   */
+  private async processMessage(message: WaMessage, contact: WaContact | undefined): Promise<void> {
+    // Meta retries deliveries - handle each message ID only once
+    if (message.id && !(await messageIdempotencyService.claim(message.id, message.from))) {
+      incrementCounter('whatsapp_message_duplicate');
+      logger.info(`Skipping duplicate WhatsApp message ${message.id} from ${message.from}`);
+      return;
+    }
+
+    // Mark message as read (vital for UX)
+    if (message.id) {
+      await whatsappService.markAsRead(message.id).catch((error) => {
+        logger.error('Failed to mark message as read:', error);
+        // Continue processing even if mark as read fails
+      });
+    }
+
+    // Log incoming message
+    logger.info('WhatsApp message received:', {
+      messageId: message.id,
+      from: message.from,
+      type: message.type,
+      timestamp: message.timestamp,
+      contactName: contact?.profile?.name,
+      contactWaId: contact?.wa_id,
+    });
+
+    // Extract message text based on type
+    let messageText: string | undefined;
+
+    if (message.type === 'text' && message.text) {
+      messageText = message.text.body;
+    } else if (message.type === 'interactive' && message.interactive) {
+      if (message.interactive.type === 'button_reply' && message.interactive.button_reply) {
+        messageText = message.interactive.button_reply.id;
+      } else if (
+        message.interactive.type === 'list_reply' &&
+        message.interactive.list_reply
+      ) {
+        messageText = message.interactive.list_reply.id;
+      }
+    } else if (message.type === 'button' && message.button) {
+      messageText = message.button.payload || message.button.text;
+    }
+
+    if (messageText) {
+      logger.info(`Message content: ${messageText}`);
+    }
+
+    // Extract message type and body for ConversationHandler
+    const messageType: 'text' | 'interactive' = message.type === 'text' ? 'text' : 'interactive';
+
+    // For interactive messages, use the ID as the body
+    let messageBody = messageText || '';
+    let messageId: string | undefined;
+
+    if (message.type === 'interactive' && message.interactive) {
+      if (message.interactive.type === 'button_reply' && message.interactive.button_reply) {
+        messageId = message.interactive.button_reply.id;
+        messageBody = message.interactive.button_reply.id; // Use ID as body
+      } else if (
+        message.interactive.type === 'list_reply' &&
+        message.interactive.list_reply
+      ) {
+        messageId = message.interactive.list_reply.id;
+        messageBody = message.interactive.list_reply.id; // Use ID as body
+      }
+    }
+
+    // Pass to ConversationHandler
+    await conversationHandler.handleMessage(
+      {
+        phone: message.from,
+        name: contact?.profile?.name,
+      },
+      {
+        type: messageType,
+        body: messageBody,
+        id: messageId,
+      }
+    );
+  }
+
+  /**
+   * Applies a delivery status to its OutboundMessage
+   * Failed ticket images are redelivered (image retry, then text code)
+   * @param status - Status entry from the webhook
+   */
+  private async processStatus(status: WaStatus): Promise<void> {
+    try {
+      const message = await outboundMessageService.applyStatus(status);
+
+      if (message?.status === 'FAILED' && message.ticketId) {
+        await ticketService.redeliverTicket(message);
+      }
+    } catch (error) {
+      logger.error(`Failed to process WhatsApp status for ${status.id}:`, error);
+    }
+  }
+
   /**
    * Receives incoming webhooks from Meta
    * POST /webhook
+   * Every message in the batch is queued oldest first; InboundQueueService processes
+   * each sender's messages strictly one at a time (across instances).
    * @param req - Express request
    * @param res - Express response
    */
@@ -78,7 +195,9 @@ class WhatsAppController {
         return;
       }
 
-      // Process each entry
+      const inbound: { message: WaMessage; contact: WaContact | undefined }[] = [];
+
+      // Collect messages from every entry and change
       for (const entry of payload.entry) {
         if (!entry.changes || !Array.isArray(entry.changes) || entry.changes.length === 0) {
           continue;
@@ -87,96 +206,44 @@ class WhatsAppController {
         for (const change of entry.changes) {
           const value = change.value;
 
-          // Handle status updates (sent, delivered, read) - ignore for now
+          // Handle status updates (sent, delivered, read, failed)
           if (value.statuses && value.statuses.length > 0) {
             logger.debug('WhatsApp status update received:', value.statuses);
-            continue;
+            for (const status of value.statuses) {
+              await this.processStatus(status);
+            }
           }
 
-          // Handle messages
           if (value.messages && Array.isArray(value.messages) && value.messages.length > 0) {
-            // Extract message and contact info
-            const message: WaMessage = value.messages[0];
-            const contact: WaContact | undefined = value.contacts?.[0];
-
-            // Mark message as read (vital for UX)
-            if (message.id) {
-              await whatsappService.markAsRead(message.id).catch((error) => {
-                logger.error('Failed to mark message as read:', error);
-                // Continue processing even if mark as read fails
-              });
-            }
-
-            // Log incoming message
-            logger.info('WhatsApp message received:', {
-              messageId: message.id,
-              from: message.from,
-              type: message.type,
-              timestamp: message.timestamp,
-              contactName: contact?.profile?.name,
-              contactWaId: contact?.wa_id,
-            });
-
-            // Extract message text based on type
-            let messageText: string | undefined;
-
-            if (message.type === 'text' && message.text) {
-              messageText = message.text.body;
-            } else if (message.type === 'interactive' && message.interactive) {
-              if (message.interactive.type === 'button_reply' && message.interactive.button_reply) {
-                messageText = message.interactive.button_reply.id;
-              } else if (
-                message.interactive.type === 'list_reply' &&
-                message.interactive.list_reply
-              ) {
-                messageText = message.interactive.list_reply.id;
-              }
-            } else if (message.type === 'button' && message.button) {
-              messageText = message.button.payload || message.button.text;
-            }
+            const contacts: WaContact[] = value.contacts || [];
 
-            if (messageText) {
-              logger.info(`Message content: ${messageText}`);
-            }
+            for (const message of value.messages) {
+              // Match the contact by sender; single-contact changes may omit wa_id
+              const contact =
+                contacts.find((c) => c.wa_id === message.from) ||
+                (contacts.length === 1 ? contacts[0] : undefined);
 
-            // Extract message type and body for ConversationHandler
-            const messageType: 'text' | 'interactive' = message.type === 'text' ? 'text' : 'interactive';
-            
-            // For interactive messages, use the ID as the body
-            let messageBody = messageText || '';
-            let messageId: string | undefined;
-
-            if (message.type === 'interactive' && message.interactive) {
-              if (message.interactive.type === 'button_reply' && message.interactive.button_reply) {
-                messageId = message.interactive.button_reply.id;
-                messageBody = message.interactive.button_reply.id; // Use ID as body
-              } else if (
-                message.interactive.type === 'list_reply' &&
-                message.interactive.list_reply
-              ) {
-                messageId = message.interactive.list_reply.id;
-                messageBody = message.interactive.list_reply.id; // Use ID as body
-              }
+              inbound.push({ message, contact });
             }
-
-            // Pass to ConversationHandler
-            await conversationHandler.handleMessage(
-              {
-                phone: message.from,
-                name: contact?.profile?.name,
-              },
-              {
-                type: messageType,
-                body: messageBody,
-                id: messageId,
-              }
-            );
-          } else {
+          } else if (!value.statuses || value.statuses.length === 0) {
             // Empty messages array - Meta sends status updates here
             logger.debug('WhatsApp webhook: Empty messages array (status update)');
           }
         }
       }
+
+      // Oldest first (timestamp is Unix seconds as a string); sort is stable for ties
+      inbound.sort((a, b) => Number(a.message.timestamp || 0) - Number(b.message.timestamp || 0));
+
+      // Queue in order; each sender's messages are then processed one at a time
+      for (const job of inbound) {
+        try {
+          await inboundQueueService.enqueue(job);
+        } catch (error) {
+          // One bad message must not drop the rest of the batch
+          logger.error(`Failed to queue WhatsApp message ${job.message.id} from ${job.message.from}:`, error);
+        }
+      }
     } catch (error) {
       logger.error('WhatsApp webhook processing error:', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -190,4 +257,3 @@ class WhatsAppController {
 
 // Export singleton instance
 export default new WhatsAppController();
-
@@ -1,14 +1,20 @@
 import redisService from '../services/redis.service';
 import whatsappService from '../services/whatsapp.service';
-import { intaSendService } from '../services/payment';
+import { intaSendService, paymentVerificationService } from '../services/payment';
 import { pesaPalService } from '../services/payment';
 import eventService from '../services/event.service';
+import inventoryService from '../services/inventory.service';
+import ticketService, { bookingEventTitles, describeBookingItems } from '../services/ticket.service';
+import promoService, { PromoQuote } from '../services/promo.service';
+import { redemptionService, RedemptionError, StaffContext } from '../services/scanner';
 import prisma from '../config/prisma';
 import logger from '../config/logger';
-import { BotState, SessionData } from '../types/session';
+import { BotState, CartItem, Session, SessionData, SessionVersion } from '../types/session';
 import { AppError } from '../utils/AppError';
-import { normalizePhoneNumber } from '../utils/phoneNormalizer';
-import { Prisma, EventCategory } from '@prisma/client';
+import { normalizePhoneNumber, validatePhoneNumber } from '../utils/phoneNormalizer';
+import { isTicketCode } from '../utils/ticketCode';
+import { isTicketToken } from '../utils/ticketToken';
+import { Booking, Prisma, EventCategory } from '@prisma/client';
 
 /**
  * ConversationHandler manages the WhatsApp conversation flow
@@ -16,8 +22,15 @@ import { Prisma, EventCategory } from '@prisma/client';
  */
 class ConversationHandler {
   private readonly GLOBAL_COMMANDS = ['hi', 'menu', 'start', 'restart', 'reset', 'cancel'];
-  private readonly MAX_QUANTITY = 5;
+  private readonly WALLET_COMMANDS = ['my tickets', 'mytickets', 'my_tickets', 'tickets', 'wallet'];
+  private readonly WALLET_ROW_PREFIX = 'WALLET_';
+  private readonly TRANSFER_COMMANDS = ['transfer', 'transfer ticket', 'transfer_ticket'];
+  private readonly TRANSFER_ROW_PREFIX = 'TRANSFER_';
+  private readonly MAX_QUANTITY = 5; // Per tier
+  private readonly MAX_CART_ITEMS = 5; // Tiers per booking
   private readonly LOCK_TTL_SECONDS = 600; // 10 minutes
+  private readonly MAX_STK_RESENDS = 3;
+  private readonly MAX_GIFT_MESSAGE_LENGTH = 200;
   
   // Track last welcome menu sent time per phone to prevent loops
   private readonly lastWelcomeMenuSent = new Map<string, number>();
@@ -47,9 +60,11 @@ class ConversationHandler {
 
   /**
    * Ensures user exists in database (upsert pattern)
+   * Also records the message time, which opens the 24-hour window for session messages
    */
   private async ensureUser(phone: string, name?: string): Promise<string> {
     const normalizedPhone = normalizePhoneNumber(phone);
+    const now = new Date();
 
     // Try to find existing user
     let user = await prisma.user.findUnique({
@@ -62,14 +77,18 @@ class ConversationHandler {
         data: {
           phoneNumber: normalizedPhone,
           name: name || null,
+          lastInboundAt: now,
         },
       });
       logger.info(`Created new user: ${normalizedPhone}`);
-    } else if (name && user.name !== name) {
+    } else {
       // Update name if provided and different
       user = await prisma.user.update({
         where: { id: user.id },
-        data: { name },
+        data: {
+          lastInboundAt: now,
+          ...(name && user.name !== name ? { name } : {}),
+        },
       });
     }
 
@@ -117,6 +136,21 @@ class ConversationHandler {
             title: categoryDisplayMap[category] || category,
           })),
         },
+        {
+          title: 'Your Tickets',
+          rows: [
+            {
+              id: 'MY_TICKETS',
+              title: '🎟️ My Tickets',
+              description: 'Get your ticket codes again',
+            },
+            {
+              id: 'TRANSFER_TICKET',
+              title: '🔁 Transfer a Ticket',
+              description: 'Send one of your tickets to a friend',
+            },
+          ],
+        },
       ];
 
       await whatsappService.sendList(
@@ -428,71 +462,126 @@ class ConversationHandler {
       // Ensure user exists
       const userId = await this.ensureUser(user.phone, user.name);
 
+      // Staff mode: door staff texting a ticket code (or a pasted QR token) are scanning, not buying
+      if (message.type === 'text' && (isTicketCode(message.body) || isTicketToken(message.body))) {
+        const staff = await redemptionService.findStaffByPhone(normalizedPhone);
+        if (staff.length > 0) {
+          await this.handleStaffScan(normalizedPhone, message.body, staff);
+          return;
+        }
+      }
+
       // Handle global commands (reset/restart commands clear session and start fresh)
       if (this.GLOBAL_COMMANDS.includes(normalizedBody)) {
         logger.info(`Global command received: ${normalizedBody} from ${normalizedPhone} - clearing session and starting fresh`);
         await redisService.clearSession(normalizedPhone);
-        await this.sendCategoryMenu(normalizedPhone);
-        await redisService.updateSession(normalizedPhone, BotState.SELECTING_CATEGORY);
+        if (await redisService.transitionSession(normalizedPhone, BotState.IDLE, BotState.SELECTING_CATEGORY)) {
+          await this.sendCategoryMenu(normalizedPhone);
+        }
+        return;
+      }
+
+      // Fetch current session state (handlers transition from the version read here)
+      const session = await redisService.getSession(normalizedPhone);
+      const { state, data } = session;
+
+      // Ticket wallet works from anywhere in the flow
+      if (this.WALLET_COMMANDS.includes(normalizedBody)) {
+        await this.sendTicketWallet(normalizedPhone, userId, session);
         return;
       }
 
-      // Fetch current session state
-      const { state, data } = await redisService.getSession(normalizedPhone);
+      if (this.TRANSFER_COMMANDS.includes(normalizedBody)) {
+        await this.sendTransferableTickets(normalizedPhone, userId, session);
+        return;
+      }
       
       logger.info(`Message routing: phone=${normalizedPhone}, state=${state}, messageType=${message.type}, body=${message.body}, id=${message.id}`);
 
       // Route based on state
       switch (state) {
         case BotState.IDLE:
-          await this.sendCategoryMenu(normalizedPhone);
-          await redisService.updateSession(normalizedPhone, BotState.SELECTING_CATEGORY);
+          if (await redisService.transitionSession(normalizedPhone, session, BotState.SELECTING_CATEGORY)) {
+            await this.sendCategoryMenu(normalizedPhone);
+          }
           break;
 
         case BotState.SELECTING_CATEGORY:
           // For interactive messages, use the ID from the list/button reply
           const categoryId = message.id || message.body;
           logger.info(`SELECTING_CATEGORY: phone=${normalizedPhone}, categoryId=${categoryId}`);
-          await this.handleSelectingCategory(normalizedPhone, categoryId);
+          await this.handleSelectingCategory(normalizedPhone, categoryId, session);
           break;
 
         case BotState.BROWSING_EVENTS:
           // For interactive messages, use the ID from the list/button reply
           const eventId = message.id || message.body;
           logger.info(`BROWSING_EVENTS: phone=${normalizedPhone}, eventId=${eventId}, state=${state}`);
-          await this.handleBrowsingEvents(normalizedPhone, eventId, userId);
+          await this.handleBrowsingEvents(normalizedPhone, eventId, userId, session);
           break;
 
         case BotState.SELECTING_TIER:
           // Safety check: if user clicks BACK or if ID looks like an event ID, reset to categories
           const tierId = message.id || message.body;
           if (tierId === 'BACK_TO_CATEGORIES') {
-            await this.sendCategoryMenu(normalizedPhone);
-            await redisService.updateSession(normalizedPhone, BotState.SELECTING_CATEGORY);
+            await this.returnToCategories(normalizedPhone, session);
             break;
           }
           // If tier lookup fails and it might be an event ID, reset state
           // This handles cases where state is stale from previous interaction
-          await this.handleSelectingTier(normalizedPhone, tierId, data);
+          await this.handleSelectingTier(normalizedPhone, tierId, session);
           break;
 
         case BotState.SELECTING_QUANTITY:
-          await this.handleSelectingQuantity(normalizedPhone, message.body, data);
+          await this.handleSelectingQuantity(normalizedPhone, message.body, session, userId);
           break;
 
         case BotState.AWAITING_PAYMENT_METHOD:
-          await this.handleAwaitingPaymentMethod(normalizedPhone, message.id || message.body, data, userId);
+          await this.handleAwaitingPaymentMethod(normalizedPhone, message.id || message.body, session, userId);
+          break;
+
+        case BotState.PROMO_ENTERING_CODE:
+          await this.handlePromoEnteringCode(normalizedPhone, message.id, message.body, session, userId);
+          break;
+
+        case BotState.GIFT_ENTERING_PHONE:
+          await this.handleGiftEnteringPhone(normalizedPhone, message.body, session);
+          break;
+
+        case BotState.GIFT_ENTERING_MESSAGE:
+          await this.handleGiftEnteringMessage(normalizedPhone, message.id, message.body, session);
           break;
 
         case BotState.AWAITING_PAYMENT_PHONE:
-          await this.handleAwaitingPaymentPhone(normalizedPhone, message.id || message.body, message.body, data, userId);
+          await this.handleAwaitingPaymentPhone(normalizedPhone, message.id || message.body, message.body, session, userId);
+          break;
+
+        case BotState.AWAITING_STK_PUSH:
+          await this.handleAwaitingStkPush(normalizedPhone, message.id || message.body, session, userId);
+          break;
+
+        case BotState.VIEWING_TICKETS:
+          await this.handleViewingTickets(normalizedPhone, message.id || message.body, userId, session);
+          break;
+
+        case BotState.TRANSFER_SELECTING_TICKET:
+          await this.handleTransferSelectingTicket(normalizedPhone, message.id || message.body, userId, session);
+          break;
+
+        case BotState.TRANSFER_ENTERING_PHONE:
+          await this.handleTransferEnteringPhone(normalizedPhone, message.body, session, userId);
+          break;
+
+        case BotState.TRANSFER_CONFIRMING:
+          await this.handleTransferConfirming(normalizedPhone, message.id || message.body, session, userId);
           break;
 
         default:
           logger.warn(`Unknown state: ${state}, resetting to IDLE`);
           await redisService.clearSession(normalizedPhone);
-          await this.sendWelcomeMenu(normalizedPhone);
-          await redisService.updateSession(normalizedPhone, BotState.BROWSING_EVENTS);
+          if (await redisService.transitionSession(normalizedPhone, BotState.IDLE, BotState.BROWSING_EVENTS)) {
+            await this.sendWelcomeMenu(normalizedPhone);
+          }
       }
     } catch (error) {
       logger.error('ConversationHandler error:', {
@@ -514,13 +603,348 @@ class ConversationHandler {
     }
   }
 
+  /**
+   * Lists the user's upcoming paid bookings so they can get their tickets again
+   * @param from - Current session (the wallet can be opened from anywhere)
+   */
+  private async sendTicketWallet(phone: string, userId: string, from: SessionVersion): Promise<void> {
+    const bookings = await ticketService.getUpcomingBookings(userId);
+
+    if (bookings.length === 0) {
+      await whatsappService.sendText(
+        phone,
+        "You don't have tickets for any upcoming events yet. Send \"Hi\" to browse events."
+      );
+      return;
+    }
+
+    const rows = bookings.map((booking) => {
+      const firstEvent = booking.items
+        .map((item) => item.ticketTier.event)
+        .reduce((first, event) => (event.startTime < first.startTime ? event : first));
+      const eventDate = new Date(firstEvent.startTime).toLocaleDateString('en-KE', {
+        day: 'numeric',
+        month: 'short',
+      });
+      const ticketCount = booking.tickets.length;
+
+      return {
+        id: `${this.WALLET_ROW_PREFIX}${booking.id}`,
+        title: bookingEventTitles(booking.items),
+        description: ticketCount === booking.quantity
+          ? `${describeBookingItems(booking.items)} • ${eventDate}`
+          : `${ticketCount} ticket${ticketCount === 1 ? '' : 's'} • ${eventDate}`,
+      };
+    });
+
+    if (!await redisService.transitionSession(phone, from, BotState.VIEWING_TICKETS)) {
+      return;
+    }
+
+    await whatsappService.sendList(
+      phone,
+      '🎟️ Your upcoming tickets. Pick a booking to get its QR codes and ticket codes again.\n\n' +
+      'To give a ticket to a friend, send "transfer".',
+      'My Tickets',
+      [
+        {
+          title: 'Upcoming Events',
+          rows,
+        },
+      ]
+    );
+  }
+
+  /**
+   * Handles VIEWING_TICKETS state
+   * Re-sends the selected booking's tickets
+   */
+  private async handleViewingTickets(phone: string, input: string, userId: string, session: Session): Promise<void> {
+    if (!input.startsWith(this.WALLET_ROW_PREFIX)) {
+      await whatsappService.sendText(
+        phone,
+        'Please pick a booking from the list, or send "Hi" for the main menu.'
+      );
+      return;
+    }
+
+    // Claim the pick first so a double tap doesn't send the tickets twice
+    if (!await redisService.transitionSession(phone, session, BotState.IDLE)) {
+      return;
+    }
+
+    try {
+      await ticketService.resendTickets(input.slice(this.WALLET_ROW_PREFIX.length), userId);
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode < 500) {
+        await whatsappService.sendText(
+          phone,
+          "Sorry, we couldn't find tickets for that booking. Send \"my tickets\" to see your bookings."
+        );
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Lists the tickets the user can transfer to someone else
+   * @param from - Current session (a transfer can be started from anywhere)
+   */
+  private async sendTransferableTickets(phone: string, userId: string, from: SessionVersion): Promise<void> {
+    const tickets = await ticketService.getTransferableTickets(userId);
+
+    if (tickets.length === 0) {
+      await whatsappService.sendText(
+        phone,
+        "You don't have any unused tickets for upcoming events to transfer. Send \"Hi\" to browse events."
+      );
+      return;
+    }
+
+    const rows = tickets.map((ticket) => ({
+      id: `${this.TRANSFER_ROW_PREFIX}${ticket.id}`,
+      title: ticket.bookingItem.ticketTier.event.title,
+      description: `${ticket.bookingItem.ticketTier.name} • ${ticket.uniqueCode}`,
+    }));
+
+    if (!await redisService.transitionSession(phone, from, BotState.TRANSFER_SELECTING_TICKET)) {
+      return;
+    }
+
+    await whatsappService.sendList(
+      phone,
+      '🔁 Which ticket would you like to transfer? The person you send it to gets a new QR code, ' +
+      'and your current one stops working.',
+      'Pick Ticket',
+      [
+        {
+          title: 'Your Tickets',
+          rows,
+        },
+      ]
+    );
+  }
+
+  /**
+   * Handles TRANSFER_SELECTING_TICKET state
+   * Asks for the recipient's number once a ticket is picked
+   */
+  private async handleTransferSelectingTicket(
+    phone: string,
+    input: string,
+    userId: string,
+    session: Session
+  ): Promise<void> {
+    if (!input.startsWith(this.TRANSFER_ROW_PREFIX)) {
+      await whatsappService.sendText(
+        phone,
+        'Please pick a ticket from the list, or send "Hi" for the main menu.'
+      );
+      return;
+    }
+
+    const ticketId = input.slice(this.TRANSFER_ROW_PREFIX.length);
+    const tickets = await ticketService.getTransferableTickets(userId);
+
+    if (!tickets.some((ticket) => ticket.id === ticketId)) {
+      if (await redisService.transitionSession(phone, session, BotState.IDLE)) {
+        await whatsappService.sendText(
+          phone,
+          'That ticket can no longer be transferred. Send "transfer" to see your tickets.'
+        );
+      }
+      return;
+    }
+
+    const claimed = await redisService.transitionSession(phone, session, BotState.TRANSFER_ENTERING_PHONE, {
+      transferTicketId: ticketId,
+    });
+    if (!claimed) {
+      return;
+    }
+
+    await whatsappService.sendText(
+      phone,
+      "Please reply with the recipient's phone number in the format 07XX..."
+    );
+  }
+
+  /**
+   * Handles TRANSFER_ENTERING_PHONE state
+   * Validates the recipient's number and asks the user to confirm the transfer
+   */
+  private async handleTransferEnteringPhone(
+    phone: string,
+    body: string,
+    session: Session,
+    userId: string
+  ): Promise<void> {
+    const { data } = session;
+
+    if (!validatePhoneNumber(body)) {
+      await whatsappService.sendText(
+        phone,
+        "That doesn't look like a Kenyan phone number. Please reply with a number in the format 07XX..."
+      );
+      return; // Stay in same state
+    }
+
+    const recipient = normalizePhoneNumber(body);
+
+    if (recipient === phone) {
+      await whatsappService.sendText(
+        phone,
+        "That's your own number. Please reply with the number you want to send the ticket to."
+      );
+      return; // Stay in same state
+    }
+
+    const ticket = (await ticketService.getTransferableTickets(userId))
+      .find((candidate) => candidate.id === data.transferTicketId);
+
+    if (!ticket) {
+      if (await redisService.transitionSession(phone, session, BotState.IDLE)) {
+        await whatsappService.sendText(
+          phone,
+          'That ticket can no longer be transferred. Send "transfer" to see your tickets.'
+        );
+      }
+      return;
+    }
+
+    const claimed = await redisService.transitionSession(phone, session, BotState.TRANSFER_CONFIRMING, {
+      transferRecipient: recipient,
+    });
+    if (!claimed) {
+      return;
+    }
+
+    await whatsappService.sendButtons(
+      phone,
+      `Transfer your *${ticket.bookingItem.ticketTier.name}* ticket for *${ticket.bookingItem.ticketTier.event.title}* ` +
+      `to ${this.formatPhoneForDisplay(recipient)}?\n\n` +
+      `Your ticket code ${ticket.uniqueCode} will stop working. This can't be undone.`,
+      [
+        { id: 'transfer_confirm', title: 'Transfer' },
+        { id: 'transfer_cancel', title: 'Cancel' },
+      ]
+    );
+  }
+
+  /**
+   * Handles TRANSFER_CONFIRMING state
+   * Transfers the ticket once the user confirms
+   */
+  private async handleTransferConfirming(
+    phone: string,
+    buttonId: string,
+    session: Session,
+    userId: string
+  ): Promise<void> {
+    const { data } = session;
+
+    if (buttonId === 'transfer_cancel') {
+      if (await redisService.transitionSession(phone, session, BotState.IDLE)) {
+        await whatsappService.sendText(phone, 'Transfer cancelled. Your ticket is unchanged.');
+      }
+      return;
+    }
+
+    if (buttonId !== 'transfer_confirm') {
+      await whatsappService.sendText(phone, 'Please tap "Transfer" or "Cancel".');
+      return; // Stay in same state
+    }
+
+    if (!data.transferTicketId || !data.transferRecipient) {
+      throw new AppError('Missing session data for ticket transfer', 500);
+    }
+
+    // Claim the confirmation first so a double tap can't start a second transfer
+    const claimed = await redisService.transitionSession(phone, session, BotState.IDLE);
+    if (!claimed) {
+      return;
+    }
+
+    try {
+      await ticketService.transferTicket(data.transferTicketId, userId, data.transferRecipient);
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode < 500) {
+        await whatsappService.sendText(
+          phone,
+          "Sorry, that ticket can no longer be transferred - it may have been used or transferred already. " +
+          'Send "transfer" to see your tickets.'
+        );
+        return;
+      }
+      throw error;
+    }
+
+    await whatsappService.sendText(
+      phone,
+      `✅ Ticket transferred to ${this.formatPhoneForDisplay(data.transferRecipient)}. ` +
+      `We've sent them their new QR code.`
+    );
+  }
+
+  /**
+   * Handles a ticket code sent by door staff
+   * Redeems the ticket and replies with the outcome (session state is untouched)
+   */
+  private async handleStaffScan(
+    phone: string,
+    code: string,
+    staff: StaffContext[]
+  ): Promise<void> {
+    try {
+      // A code texted from a registered staff phone is a deliberate manual entry; anyone
+      // else texting a code gets the buyer flow
+      const result = await redemptionService.redeemTicket(code, staff, !isTicketToken(code));
+
+      await whatsappService.sendText(
+        phone,
+        `✅ *Admitted*\n\n` +
+        `*Code:* ${result.uniqueCode}\n` +
+        `*Name:* ${result.holder.name || 'Not provided'}\n` +
+        `*Phone:* ${this.formatPhoneForDisplay(result.holder.phoneNumber)}\n` +
+        `*Tier:* ${result.tier.name}\n` +
+        `*Event:* ${result.event.title}\n` +
+        `*Gate:* ${result.gate}`
+      );
+    } catch (error) {
+      if (error instanceof RedemptionError) {
+        logger.info(`Staff scan rejected: phone=${phone}, code=${code}, reason=${error.code}`);
+        await whatsappService.sendText(phone, `❌ *Not admitted*\n\n${error.message}`);
+        return;
+      }
+      logger.error('Error handling staff scan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the user back to the category menu, after an optional notice
+   * Nothing is sent if the session changed since it was read
+   */
+  private async returnToCategories(phone: string, from: SessionVersion, notice?: string): Promise<void> {
+    if (!await redisService.transitionSession(phone, from, BotState.SELECTING_CATEGORY)) {
+      return;
+    }
+
+    if (notice) {
+      await whatsappService.sendText(phone, notice);
+    }
+    await this.sendCategoryMenu(phone);
+  }
+
   /**
    * Handles SELECTING_CATEGORY state
    * User has selected a category, show events for that category
    */
   private async handleSelectingCategory(
     phone: string,
-    categoryId: string
+    categoryId: string,
+    session: SessionVersion
   ): Promise<void> {
     try {
       // Validate category
@@ -535,14 +959,17 @@ class ConversationHandler {
 
       const category = categoryId as EventCategory;
       
-      // Send events for this category
-      await this.sendEventsForCategory(phone, category);
-      
       // Update state to BROWSING_EVENTS and store the selected category
       // This allows users to go back to events from ticket tiers
-      await redisService.updateSession(phone, BotState.BROWSING_EVENTS, {
+      const claimed = await redisService.transitionSession(phone, session, BotState.BROWSING_EVENTS, {
         selectedCategory: category,
       });
+      if (!claimed) {
+        return;
+      }
+
+      // Send events for this category
+      await this.sendEventsForCategory(phone, category);
     } catch (error) {
       logger.error('Error handling SELECTING_CATEGORY:', error);
       throw error;
@@ -556,34 +983,29 @@ class ConversationHandler {
   private async handleBrowsingEvents(
     phone: string,
     eventId: string,
-    userId: string
+    userId: string,
+    session: Session
   ): Promise<void> {
     try {
       logger.info(`handleBrowsingEvents: phone=${phone}, eventId=${eventId}`);
       
       // Check if user clicked BACK button
       if (eventId === 'BACK_TO_CATEGORIES') {
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+        await this.returnToCategories(phone, session);
         return;
       }
       
       // Safety check: If the ID looks like a category, handle it as category selection
       if (Object.values(EventCategory).includes(eventId as EventCategory)) {
         logger.warn(`User clicked category ${eventId} while in BROWSING_EVENTS state. Handling as category selection.`);
-        await this.handleSelectingCategory(phone, eventId);
+        await this.handleSelectingCategory(phone, eventId, session);
         return;
       }
 
       // Validate eventId format (should be a UUID)
       if (!eventId || eventId.length < 10) {
         logger.warn(`Invalid eventId format: ${eventId}`);
-        await whatsappService.sendText(
-          phone,
-          "Invalid selection. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+        await this.returnToCategories(phone, session, "Invalid selection. Let's go back to categories:");
         return;
       }
 
@@ -603,38 +1025,23 @@ class ConversationHandler {
 
       if (!event) {
         logger.warn(`Event not found: eventId=${eventId}`);
-        await whatsappService.sendText(
-          phone,
-          "That event is no longer available. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session, "That event is no longer available. Let's go back to categories:");
         return;
       }
 
       if (!event.isActive) {
         logger.warn(`Event is inactive: eventId=${eventId}, title=${event.title}`);
-        await whatsappService.sendText(
-          phone,
-          "That event is no longer available. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session, "That event is no longer available. Let's go back to categories:");
         return;
       }
 
-      // Filter tiers with available tickets (calculated: quantity - quantitySold > 0)
+      // Filter tiers with available tickets (not sold and not held by unpaid bookings)
       const availableTiers = event.ticketTiers.filter(
-        (tier) => tier.quantity - tier.quantitySold > 0
+        (tier) => inventoryService.available(tier) > 0
       );
 
       if (availableTiers.length === 0) {
-        await whatsappService.sendText(
-          phone,
-          "Sorry, this event has no available tickets. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session, "Sorry, this event has no available tickets. Let's go back to categories:");
         return;
       }
 
@@ -660,8 +1067,7 @@ class ConversationHandler {
       const rows = availableTiers.map((tier) => {
         // Format price (remove decimals if .00)
         const priceStr = tier.price.toNumber().toFixed(0);
-        // Calculate available tickets: quantity - quantitySold
-        const available = tier.quantity - tier.quantitySold;
+        const available = inventoryService.available(tier);
         const description = `KES ${priceStr} • ${available} available`;
         
         return {
@@ -685,19 +1091,20 @@ class ConversationHandler {
         },
       ];
 
+      const claimed = await redisService.transitionSession(phone, session, BotState.SELECTING_TIER, {
+        eventId: event.id,
+        selectedCategory: session.data.selectedCategory, // Preserve category for back navigation
+      });
+      if (!claimed) {
+        return;
+      }
+
       await whatsappService.sendList(
         phone,
         bodyText,
         'View Tickets',
         sections
       );
-
-      // Get current session to preserve selectedCategory
-      const { data: currentData } = await redisService.getSession(phone);
-      await redisService.updateSession(phone, BotState.SELECTING_TIER, {
-        eventId: event.id,
-        selectedCategory: currentData?.selectedCategory, // Preserve category for back navigation
-      });
     } catch (error) {
       logger.error('Error handling BROWSING_EVENTS:', error);
       throw error;
@@ -710,16 +1117,17 @@ class ConversationHandler {
   private async handleSelectingTier(
     phone: string,
     tierId: string,
-    data: SessionData
+    session: Session
   ): Promise<void> {
+    const { data } = session;
+
     try {
       logger.info(`handleSelectingTier: phone=${phone}, tierId=${tierId}, eventId=${data.eventId}, category=${data.selectedCategory}`);
       
       // Handle BACK button - go to category menu (safer when category context might be lost)
       if (tierId === 'BACK_TO_EVENTS' || tierId === 'BACK_TO_CATEGORIES') {
         logger.info(`User clicked BACK (${tierId}) from ticket tiers, going to category menu`);
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+        await this.returnToCategories(phone, session);
         return;
       }
       
@@ -728,21 +1136,21 @@ class ConversationHandler {
         logger.warn(`Invalid tierId in SELECTING_TIER: tierId=${tierId}`);
         // Try to go back to events if we have a category
         if (data.selectedCategory && Object.values(EventCategory).includes(data.selectedCategory as EventCategory)) {
-          await this.sendEventsForCategory(phone, data.selectedCategory as EventCategory);
-          await redisService.updateSession(phone, BotState.BROWSING_EVENTS, {
+          const claimed = await redisService.transitionSession(phone, session, BotState.BROWSING_EVENTS, {
             selectedCategory: data.selectedCategory,
           });
+          if (claimed) {
+            await this.sendEventsForCategory(phone, data.selectedCategory as EventCategory);
+          }
           return;
         }
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+        await this.returnToCategories(phone, session);
         return;
       }
       
       if (!data.eventId) {
         logger.error(`Event ID missing from session in SELECTING_TIER: phone=${phone}`);
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session);
         return;
       }
 
@@ -778,38 +1186,23 @@ class ConversationHandler {
           const now = new Date();
           if (!newEvent.isActive) {
             logger.warn(`Switched event is inactive: eventId=${tierId}`);
-            await whatsappService.sendText(
-              phone,
-              "This event is no longer available. Let's go back to categories:"
-            );
-            await this.sendCategoryMenu(phone);
-            await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+            await this.returnToCategories(phone, session, "This event is no longer available. Let's go back to categories:");
             return;
           }
           
           if (newEvent.startTime <= now) {
             logger.warn(`Switched event has ended: eventId=${tierId}, startTime=${newEvent.startTime}`);
-            await whatsappService.sendText(
-              phone,
-              "This event has ended. Let's go back to categories:"
-            );
-            await this.sendCategoryMenu(phone);
-            await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+            await this.returnToCategories(phone, session, "This event has ended. Let's go back to categories:");
             return;
           }
           
           // Event is valid - show its ticket tiers (silent switch)
           const availableTiers = newEvent.ticketTiers.filter(
-            (t) => t.quantity - t.quantitySold > 0
+            (t) => inventoryService.available(t) > 0
           );
           
           if (availableTiers.length === 0) {
-            await whatsappService.sendText(
-              phone,
-              "Sorry, this event has no available tickets. Let's go back to categories:"
-            );
-            await this.sendCategoryMenu(phone);
-            await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+            await this.returnToCategories(phone, session, "Sorry, this event has no available tickets. Let's go back to categories:");
             return;
           }
           
@@ -831,7 +1224,7 @@ class ConversationHandler {
           
           const rows = availableTiers.map((t) => {
             const priceStr = t.price.toNumber().toFixed(0);
-            const available = t.quantity - t.quantitySold;
+            const available = inventoryService.available(t);
             const description = `KES ${priceStr} • ${available} available`;
             
             return {
@@ -855,6 +1248,16 @@ class ConversationHandler {
             },
           ];
           
+          // Update session with new event ID, preserve category if available
+          // (same state, so only the version read shows a concurrent switch)
+          const claimed = await redisService.transitionSession(phone, session, BotState.SELECTING_TIER, {
+            eventId: newEvent.id,
+            selectedCategory: data.selectedCategory, // Preserve if available, but allow category switching
+          });
+          if (!claimed) {
+            return;
+          }
+
           await whatsappService.sendList(
             phone,
             bodyText,
@@ -862,48 +1265,34 @@ class ConversationHandler {
             sections
           );
           
-          // Update session with new event ID, preserve category if available
-          await redisService.updateSession(phone, BotState.SELECTING_TIER, {
-            eventId: newEvent.id,
-            selectedCategory: data.selectedCategory, // Preserve if available, but allow category switching
-          });
-          
           return; // Event switch complete
         }
         
         // Not an event ID either - invalid selection
         logger.warn(`Invalid tier/event ID: tierId=${tierId}`);
-        await whatsappService.sendText(
-          phone,
-          "That selection is no longer available. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY, {});
+        await this.returnToCategories(phone, session, "That selection is no longer available. Let's go back to categories:");
         return;
       }
 
       // Validate tier belongs to the event in session
       if (tier.eventId !== data.eventId || !tier.event.isActive) {
         logger.warn(`Tier validation failed: tier=${!!tier}, eventIdMatch=${tier?.eventId === data.eventId}, eventActive=${tier?.event?.isActive}`);
-        await whatsappService.sendText(
-          phone,
-          "That ticket type is no longer available. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session, "That ticket type is no longer available. Let's go back to categories:");
         return;
       }
 
-      // Check availability using calculated field: quantity - quantitySold
-      const available = tier.quantity - tier.quantitySold;
+      // Check availability (tickets held by unpaid bookings don't count)
+      const available = inventoryService.available(tier);
       if (available <= 0) {
         logger.warn(`Tier sold out: tierId=${tierId}, available=${available}`);
-        await whatsappService.sendText(
-          phone,
-          "Sorry, this ticket type is sold out. Let's go back to categories:"
-        );
-        await this.sendCategoryMenu(phone);
-        await redisService.updateSession(phone, BotState.SELECTING_CATEGORY);
+        await this.returnToCategories(phone, session, "Sorry, this ticket type is sold out. Let's go back to categories:");
+        return;
+      }
+
+      const claimed = await redisService.transitionSession(phone, session, BotState.SELECTING_QUANTITY, {
+        tierId: tier.id,
+      });
+      if (!claimed) {
         return;
       }
 
@@ -911,10 +1300,6 @@ class ConversationHandler {
         phone,
         `How many ${tier.name} tickets would you like? (Max ${this.MAX_QUANTITY})`
       );
-
-      await redisService.updateSession(phone, BotState.SELECTING_QUANTITY, {
-        tierId: tier.id,
-      });
     } catch (error) {
       logger.error('Error handling SELECTING_TIER:', error);
       throw error;
@@ -927,8 +1312,11 @@ class ConversationHandler {
   private async handleSelectingQuantity(
     phone: string,
     body: string,
-    data: SessionData
+    session: Session,
+    userId: string
   ): Promise<void> {
+    const { data } = session;
+
     try {
       if (!data.tierId) {
         throw new AppError('Tier ID missing from session', 500);
@@ -945,6 +1333,18 @@ class ConversationHandler {
         return; // Stay in same state
       }
 
+      const cart = data.cart || [];
+      const inCart = cart.find((item) => item.tierId === data.tierId);
+
+      if (inCart && inCart.quantity + quantity > this.MAX_QUANTITY) {
+        await whatsappService.sendText(
+          phone,
+          `You already have ${inCart.quantity} of these in your cart. ` +
+          `Please type a number up to ${this.MAX_QUANTITY - inCart.quantity}.`
+        );
+        return; // Stay in same state
+      }
+
       // Fetch tier to get price
       const tier = await prisma.ticketTier.findUnique({
         where: { id: data.tierId },
@@ -954,64 +1354,569 @@ class ConversationHandler {
         throw new AppError('Tier not found', 404);
       }
 
-      // Calculate total amount
-      const totalAmount = Prisma.Decimal.mul(tier.price, quantity);
-
-      // Acquire lock (session lock to prevent spam)
-      const lockKey = `tier:${data.tierId}:user:${phone}`;
-      const lockAcquired = await redisService.acquireLock(
-        lockKey,
-        this.LOCK_TTL_SECONDS,
-        phone
-      );
-
-      if (!lockAcquired) {
+      const available = inventoryService.available(tier) - (inCart?.quantity || 0);
+      if (quantity > available) {
         await whatsappService.sendText(
           phone,
-          "Sorry, high demand. Please try again in a moment."
+          available > 0
+            ? `Only ${available} ${tier.name} ticket${available === 1 ? '' : 's'} left. Please type a smaller number.`
+            : "Sorry, this ticket type just sold out. Send \"Hi\" to see other options."
         );
-        await redisService.updateSession(phone, BotState.IDLE);
-        return;
+        return; // Stay in same state
+      }
+
+      if (!inCart) {
+        // Acquire lock (session lock to prevent spam)
+        const lockKey = `tier:${data.tierId}:user:${phone}`;
+        const lockAcquired = await redisService.acquireLock(
+          lockKey,
+          this.LOCK_TTL_SECONDS,
+          phone
+        );
+
+        if (!lockAcquired) {
+          if (!await redisService.transitionSession(phone, session, BotState.IDLE)) {
+            return;
+          }
+          await this.releaseCartLocks(phone, cart);
+          await whatsappService.sendText(
+            phone,
+            "Sorry, high demand. Please try again in a moment."
+          );
+          return;
+        }
       }
 
-      // Update session with quantity and total
-      await redisService.updateSession(phone, BotState.AWAITING_PAYMENT_METHOD, {
-        quantity,
-        totalAmount: totalAmount.toNumber(),
+      const updatedCart: CartItem[] = inCart
+        ? cart.map((item) => (item === inCart ? { ...item, quantity: item.quantity + quantity } : item))
+        : [...cart, { tierId: tier.id, quantity }];
+
+      // A promo code applied earlier is checked again against the bigger cart
+      const checkout = await this.priceCheckout(updatedCart, userId, data.promoCode);
+
+      // Update session with the cart and its total
+      const claimed = await redisService.transitionSession(phone, session, BotState.AWAITING_PAYMENT_METHOD, {
+        cart: updatedCart,
+        ...this.checkoutTotals(checkout),
       });
+      if (!claimed) {
+        if (!inCart) {
+          await this.releaseCartLocks(phone, [{ tierId: tier.id, quantity }]);
+        }
+        return;
+      }
+
+      if (checkout.promoError) {
+        await whatsappService.sendText(phone, `${checkout.promoError} The discount has been removed from your cart.`);
+      }
+
+      await this.sendCheckoutPrompt(phone, checkout, updatedCart.length < this.MAX_CART_ITEMS);
+    } catch (error) {
+      logger.error('Error handling SELECTING_QUANTITY:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Prices each cart item at its tier's current price
+   */
+  private async priceCart(cart: CartItem[]) {
+    const tiers = await prisma.ticketTier.findMany({
+      where: {
+        id: {
+          in: cart.map((item) => item.tierId),
+        },
+      },
+      include: {
+        event: true,
+      },
+    });
+
+    return cart.flatMap((item) => {
+      const tier = tiers.find((t) => t.id === item.tierId);
+      return tier
+        ? [{ tier, quantity: item.quantity, subtotal: Prisma.Decimal.mul(tier.price, item.quantity) }]
+        : [];
+    });
+  }
+
+  /**
+   * Prices the cart and applies a promo code to it
+   * @returns The priced cart, plus the promo discount or why the code doesn't apply
+   */
+  private async priceCheckout(
+    cart: CartItem[],
+    userId: string,
+    promoCode?: string
+  ): Promise<{
+    lines: Awaited<ReturnType<ConversationHandler['priceCart']>>;
+    subtotal: Prisma.Decimal;
+    promo?: PromoQuote;
+    promoError?: string;
+  }> {
+    const lines = await this.priceCart(cart);
+    const subtotal = lines.reduce(
+      (sum, line) => sum.add(line.subtotal),
+      new Prisma.Decimal(0)
+    );
+
+    if (!promoCode) {
+      return { lines, subtotal };
+    }
+
+    try {
+      const promo = await promoService.quote(
+        promoCode,
+        userId,
+        lines.map((line) => ({ tierId: line.tier.id, quantity: line.quantity, unitPrice: line.tier.price }))
+      );
+      return { lines, subtotal, promo };
+    } catch (error) {
+      if (error instanceof AppError && error.statusCode < 500) {
+        return { lines, subtotal, promoError: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Session fields for a priced cart (the promo is dropped if it no longer applies)
+   */
+  private checkoutTotals(checkout: { subtotal: Prisma.Decimal; promo?: PromoQuote }): Partial<SessionData> {
+    return {
+      totalAmount: (checkout.promo ? checkout.promo.total : checkout.subtotal).toNumber(),
+      promoCode: checkout.promo?.code,
+      discountAmount: checkout.promo?.discount.toNumber(),
+    };
+  }
+
+  /**
+   * Shows the cart and asks how to continue: pay, add more tickets, add a promo code
+   * or buy as a gift
+   */
+  private async sendCheckoutPrompt(
+    phone: string,
+    checkout: {
+      lines: Array<{ tier: { name: string; event: { id: string; title: string } }; quantity: number; subtotal: Prisma.Decimal }>;
+      subtotal: Prisma.Decimal;
+      promo?: PromoQuote;
+    },
+    canAddMore: boolean
+  ): Promise<void> {
+    const { lines, subtotal, promo } = checkout;
+    const totalAmount = promo ? promo.total : subtotal;
+    const multiEvent = new Set(lines.map((line) => line.tier.event.id)).size > 1;
+    const cartText = lines
+      .map((line) =>
+        `• ${line.quantity} x ${line.tier.name}${multiEvent ? ` (${line.tier.event.title})` : ''} - KES ${line.subtotal.toString()}`
+      )
+      .join('\n');
+
+    const rows = [
+      { id: 'mpesa', title: 'Pay with M-Pesa', description: `Pay KES ${totalAmount.toString()} now` },
+      { id: 'card', title: 'Pay by card', description: `Pay KES ${totalAmount.toString()} now` },
+      ...(canAddMore
+        ? [{ id: 'add_more', title: '➕ Add more tickets', description: 'Another ticket type or event' }]
+        : []),
+      ...(promo
+        ? []
+        : [{ id: 'promo', title: '🏷️ Add a promo code', description: 'Early bird or partner discount' }]),
+      { id: 'gift', title: '🎁 Buy as a gift', description: 'Send the tickets to someone else' },
+    ];
+
+    const totalsText = promo
+      ? `*Subtotal:* KES ${subtotal.toString()}\n` +
+        `*Promo ${promo.code}:* -KES ${promo.discount.toString()}\n` +
+        `*Total:* KES ${totalAmount.toString()}`
+      : `*Total:* KES ${totalAmount.toString()}`;
+
+    await whatsappService.sendList(
+      phone,
+      `🛒 *Your cart*\n${cartText}\n\n${totalsText}`,
+      'Checkout',
+      [
+        {
+          title: 'Checkout',
+          rows,
+        },
+      ]
+    );
+  }
+
+  /**
+   * Releases the per-user tier locks taken for the items in a cart
+   */
+  private async releaseCartLocks(phone: string, cart: CartItem[]): Promise<void> {
+    for (const item of cart) {
+      await redisService.safeReleaseLock(`tier:${item.tierId}:user:${phone}`, phone);
+    }
+  }
+
+  /**
+   * Handles PROMO_ENTERING_CODE state
+   * Applies the typed code to the cart and returns to the checkout list
+   */
+  private async handlePromoEnteringCode(
+    phone: string,
+    buttonId: string | undefined,
+    body: string,
+    session: Session,
+    userId: string
+  ): Promise<void> {
+    const { data } = session;
+
+    if (!data.cart?.length) {
+      throw new AppError('Cart missing from session', 500);
+    }
+
+    const canAddMore = data.cart.length < this.MAX_CART_ITEMS;
+
+    if (buttonId === 'promo_back') {
+      const checkout = await this.priceCheckout(data.cart, userId);
+      if (await redisService.transitionSession(phone, session, BotState.AWAITING_PAYMENT_METHOD)) {
+        await this.sendCheckoutPrompt(phone, checkout, canAddMore);
+      }
+      return;
+    }
+
+    if (!body.trim()) {
+      await whatsappService.sendText(phone, "Please type your promo code.");
+      return; // Stay in same state
+    }
+
+    const checkout = await this.priceCheckout(data.cart, userId, body);
 
-      // Send payment method selection
+    if (checkout.promoError) {
       await whatsappService.sendButtons(
         phone,
-        `Pay KES ${totalAmount.toString()} via:`,
+        `${checkout.promoError}\n\nType another code, or go back to your cart.`,
         [
-          { id: 'mpesa', title: 'M-Pesa' },
-          { id: 'card', title: 'Card' },
+          { id: 'promo_back', title: 'Back to checkout' },
         ]
       );
+      return; // Stay in same state
+    }
+
+    const claimed = await redisService.transitionSession(
+      phone,
+      session,
+      BotState.AWAITING_PAYMENT_METHOD,
+      this.checkoutTotals(checkout)
+    );
+    if (!claimed) {
+      return;
+    }
+
+    await whatsappService.sendText(phone, `✅ Promo code ${checkout.promo!.code} applied!`);
+    await this.sendCheckoutPrompt(phone, checkout, canAddMore);
+  }
+
+  /**
+   * Handles GIFT_ENTERING_PHONE state
+   * Validates the gift recipient's number and asks for a personal message
+   */
+  private async handleGiftEnteringPhone(phone: string, body: string, session: Session): Promise<void> {
+    if (!validatePhoneNumber(body)) {
+      await whatsappService.sendText(
+        phone,
+        "That doesn't look like a Kenyan phone number. Please reply with a number in the format 07XX..."
+      );
+      return; // Stay in same state
+    }
+
+    const recipient = normalizePhoneNumber(body);
+
+    if (recipient === phone) {
+      await whatsappService.sendText(
+        phone,
+        "That's your own number. Please reply with the number of the person you're buying for."
+      );
+      return; // Stay in same state
+    }
+
+    const claimed = await redisService.transitionSession(phone, session, BotState.GIFT_ENTERING_MESSAGE, {
+      giftRecipient: recipient,
+    });
+    if (!claimed) {
+      return;
+    }
+
+    await whatsappService.sendButtons(
+      phone,
+      `Add a personal message for ${this.formatPhoneForDisplay(recipient)} ` +
+      `(up to ${this.MAX_GIFT_MESSAGE_LENGTH} characters), or tap Skip.`,
+      [
+        { id: 'gift_skip', title: 'Skip' },
+      ]
+    );
+  }
+
+  /**
+   * Handles GIFT_ENTERING_MESSAGE state
+   * Stores the optional message and returns to payment method selection
+   */
+  private async handleGiftEnteringMessage(
+    phone: string,
+    buttonId: string | undefined,
+    body: string,
+    session: Session
+  ): Promise<void> {
+    const { data } = session;
+
+    if (!data.giftRecipient || !data.totalAmount) {
+      throw new AppError('Missing session data for gift', 500);
+    }
+
+    const giftMessage = buttonId === 'gift_skip' ? undefined : body.trim();
+
+    if (giftMessage !== undefined && (giftMessage.length === 0 || giftMessage.length > this.MAX_GIFT_MESSAGE_LENGTH)) {
+      await whatsappService.sendText(
+        phone,
+        `Please keep your message under ${this.MAX_GIFT_MESSAGE_LENGTH} characters, or tap Skip.`
+      );
+      return; // Stay in same state
+    }
+
+    const claimed = await redisService.transitionSession(phone, session, BotState.AWAITING_PAYMENT_METHOD, {
+      giftMessage,
+    });
+    if (!claimed) {
+      return;
+    }
+
+    await whatsappService.sendButtons(
+      phone,
+      `🎁 The tickets will be sent to ${this.formatPhoneForDisplay(data.giftRecipient)} and you'll get the receipt.\n\n` +
+      `Pay KES ${data.totalAmount} via:`,
+      [
+        { id: 'mpesa', title: 'M-Pesa' },
+        { id: 'card', title: 'Card' },
+      ]
+    );
+  }
+
+  /**
+   * Creates an AWAITING_PAYMENT booking with one item per cart line and holds their
+   * tickets, and a use of the promo code, in one transaction
+   * The total is priced at current tier prices, less the promo discount
+   * @returns The booking, or why it couldn't be held: a tier no longer has enough
+   * tickets, or the promo code can no longer be used
+   */
+  private async createHeldBooking(
+    userId: string,
+    data: SessionData,
+    paymentMethod: 'MPESA' | 'CARD',
+    paymentPhone: string
+  ): Promise<{ booking: Booking } | { soldOut: true } | { promoError: string }> {
+    const cart = data.cart!;
+    let soldOut = false;
+    let promoError: string | null = null;
+
+    try {
+      const booking = await prisma.$transaction(async (tx) => {
+        const tiers = await tx.ticketTier.findMany({
+          where: {
+            id: {
+              in: cart.map((item) => item.tierId),
+            },
+          },
+        });
+
+        for (const item of inventoryService.lockOrder(cart, (line) => line.tierId)) {
+          const held = await inventoryService.reserve(tx, item.tierId, item.quantity);
+
+          if (!held) {
+            // Throw so holds already taken for earlier items roll back
+            soldOut = true;
+            throw new AppError(`Tier ${item.tierId} no longer has ${item.quantity} tickets`, 409);
+          }
+        }
+
+        const lines = cart.map((item) => ({
+          tierId: item.tierId,
+          quantity: item.quantity,
+          unitPrice: tiers.find((tier) => tier.id === item.tierId)!.price,
+        }));
+        const subtotal = lines.reduce(
+          (sum, line) => sum.add(Prisma.Decimal.mul(line.unitPrice, line.quantity)),
+          new Prisma.Decimal(0)
+        );
+
+        let promo: PromoQuote | undefined;
+        if (data.promoCode) {
+          try {
+            promo = await promoService.quote(data.promoCode, userId, lines, tx);
+          } catch (error) {
+            if (error instanceof AppError && error.statusCode < 500) {
+              promoError = error.message;
+            }
+            throw error;
+          }
+
+          if (!(await promoService.claim(tx, promo.promoCodeId))) {
+            promoError = `Sorry, ${promo.code} has been fully redeemed.`;
+            throw new AppError(`Promo code ${promo.code} has no uses left`, 409);
+          }
+        }
+
+        // Gift recipients may not have messaged us yet
+        const recipient = data.giftRecipient
+          ? await tx.user.upsert({
+              where: { phoneNumber: data.giftRecipient },
+              create: { phoneNumber: data.giftRecipient },
+              update: {},
+            })
+          : null;
+
+        return await tx.booking.create({
+          data: {
+            userId,
+            recipientId: recipient?.id,
+            giftMessage: data.giftMessage,
+            quantity: cart.reduce((sum, item) => sum + item.quantity, 0),
+            totalAmount: promo ? promo.total : subtotal,
+            status: 'AWAITING_PAYMENT',
+            paymentMethod,
+            paymentPhoneNumber: paymentPhone,
+            expiryTime: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
+            items: {
+              create: lines.map((line) => ({
+                ticketTierId: line.tierId,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+              })),
+            },
+            ...(promo && {
+              promoRedemption: {
+                create: {
+                  promoCodeId: promo.promoCodeId,
+                  userId,
+                  discountAmount: promo.discount,
+                },
+              },
+            }),
+          },
+        });
+      });
+
+      return { booking };
     } catch (error) {
-      logger.error('Error handling SELECTING_QUANTITY:', error);
+      if (soldOut) {
+        return { soldOut: true };
+      }
+      if (promoError) {
+        return { promoError };
+      }
       throw error;
     }
   }
 
+  /**
+   * Creates a PesaPal payment link for a booking and sends it to the user
+   */
+  private async sendCardPaymentLink(
+    phone: string,
+    bookingId: string,
+    amount: number,
+    userId: string
+  ): Promise<void> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new AppError('Failed to fetch booking details', 500);
+    }
+
+    const { redirectUrl, orderTrackingId } = await pesaPalService.getPaymentLink({
+      id: bookingId,
+      amount,
+      email: `${phone}@accesske.local`, // Placeholder email
+      phone: phone,
+      firstName: user.name?.split(' ')[0] || 'User',
+      lastName: user.name?.split(' ').slice(1).join(' ') || '',
+    });
+
+    // Keep the order so the payment can be reconciled if the IPN never arrives
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: { orderTrackingId },
+    });
+
+    await whatsappService.sendText(
+      phone,
+      `Click here to pay: ${redirectUrl}\n\nAfter payment, you'll receive your tickets automatically.`
+    );
+  }
+
+  /**
+   * Tells the user their tickets sold out mid-checkout and resets the flow
+   */
+  private async sendSoldOutDuringCheckout(phone: string, cart: CartItem[], from: SessionVersion): Promise<void> {
+    const claimed = await redisService.transitionSession(phone, from, BotState.SELECTING_CATEGORY, {
+      cart: undefined,
+      totalAmount: undefined,
+      promoCode: undefined,
+      discountAmount: undefined,
+    });
+    if (!claimed) {
+      return;
+    }
+
+    await this.releaseCartLocks(phone, cart);
+    await whatsappService.sendText(
+      phone,
+      "Sorry, those tickets were just taken by other buyers. Let's go back to categories:"
+    );
+    await this.sendCategoryMenu(phone);
+  }
+
+  /**
+   * Tells the user their promo code stopped applying mid-checkout and shows the cart
+   * at full price
+   */
+  private async sendPromoRemovedDuringCheckout(
+    phone: string,
+    promoError: string,
+    cart: CartItem[],
+    userId: string,
+    from: SessionVersion
+  ): Promise<void> {
+    const checkout = await this.priceCheckout(cart, userId);
+
+    if (!await redisService.transitionSession(phone, from, BotState.AWAITING_PAYMENT_METHOD, this.checkoutTotals(checkout))) {
+      return;
+    }
+    await whatsappService.sendText(phone, `${promoError} The discount has been removed from your cart.`);
+    await this.sendCheckoutPrompt(phone, checkout, cart.length < this.MAX_CART_ITEMS);
+  }
+
   /**
    * Handles AWAITING_PAYMENT_METHOD state
    */
   private async handleAwaitingPaymentMethod(
     phone: string,
     methodId: string,
-    data: SessionData,
+    session: Session,
     userId: string
   ): Promise<void> {
+    const { data } = session;
+
     try {
-      if (!data.tierId || !data.quantity || !data.totalAmount) {
+      if (!data.cart?.length || !data.totalAmount) {
         throw new AppError('Missing session data for payment', 500);
       }
 
       if (methodId === 'mpesa') {
         // Ask if user wants to use current number
         const displayPhone = this.formatPhoneForDisplay(phone);
+        const claimed = await redisService.transitionSession(phone, session, BotState.AWAITING_PAYMENT_PHONE, {
+          paymentMethod: 'MPESA',
+        });
+        if (!claimed) {
+          return;
+        }
+
         await whatsappService.sendButtons(
           phone,
           `Use current number ${displayPhone}?`,
@@ -1020,61 +1925,62 @@ class ConversationHandler {
             { id: 'no', title: 'No (Use Different)' },
           ]
         );
-
-        await redisService.updateSession(phone, BotState.AWAITING_PAYMENT_PHONE, {
-          paymentMethod: 'MPESA',
-        });
       } else if (methodId === 'card') {
-        // Create booking for card payment
-        const booking = await prisma.booking.create({
-          data: {
-            userId,
-            ticketTierId: data.tierId,
-            quantity: data.quantity,
-            totalAmount: new Prisma.Decimal(data.totalAmount),
-            status: 'AWAITING_PAYMENT',
-            paymentMethod: 'CARD',
-            paymentPhoneNumber: phone,
-            expiryTime: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
-          },
-        });
+        // Create booking for card payment (holds the tickets)
+        const held = await this.createHeldBooking(userId, data, 'CARD', phone);
 
-        // Get payment link
-        const tier = await prisma.ticketTier.findUnique({
-          where: { id: data.tierId },
-          include: {
-            event: true,
-          },
-        });
+        if ('soldOut' in held) {
+          await this.sendSoldOutDuringCheckout(phone, data.cart, session);
+          return;
+        }
 
-        const user = await prisma.user.findUnique({
-          where: { id: userId },
-        });
+        if ('promoError' in held) {
+          await this.sendPromoRemovedDuringCheckout(phone, held.promoError, data.cart, userId, session);
+          return;
+        }
 
-        if (!tier || !user) {
-          throw new AppError('Failed to fetch booking details', 500);
+        const { booking } = held;
+
+        // Reset to IDLE (waiting for webhook)
+        if (!await redisService.transitionSession(phone, session, BotState.IDLE)) {
+          // Another message moved the checkout on - don't leave a second booking holding tickets
+          await ticketService.releaseUnpaidBooking(booking.id, 'CANCELLED', 'SESSION_CONFLICT');
+          return;
         }
 
-        const paymentLink = await pesaPalService.getPaymentLink({
-          id: booking.id,
-          amount: data.totalAmount,
-          email: `${phone}@accesske.local`, // Placeholder email
-          phone: phone,
-          firstName: user.name?.split(' ')[0] || 'User',
-          lastName: user.name?.split(' ').slice(1).join(' ') || '',
-        });
+        await this.sendCardPaymentLink(phone, booking.id, booking.totalAmount.toNumber(), userId);
+      } else if (methodId === 'add_more') {
+        if (!data.eventId) {
+          throw new AppError('Event ID missing from session', 500);
+        }
 
-        await whatsappService.sendText(
+        // Back to the current event's tiers; its Back option leads to other events
+        await this.handleBrowsingEvents(phone, data.eventId, userId, session);
+      } else if (methodId === 'promo') {
+        if (!await redisService.transitionSession(phone, session, BotState.PROMO_ENTERING_CODE)) {
+          return;
+        }
+
+        await whatsappService.sendButtons(
           phone,
-          `Click here to pay: ${paymentLink}\n\nAfter payment, you'll receive your tickets automatically.`
+          "Type your promo code:",
+          [
+            { id: 'promo_back', title: 'Back to checkout' },
+          ]
         );
+      } else if (methodId === 'gift') {
+        if (!await redisService.transitionSession(phone, session, BotState.GIFT_ENTERING_PHONE)) {
+          return;
+        }
 
-        // Reset to IDLE (waiting for webhook)
-        await redisService.clearSession(phone);
+        await whatsappService.sendText(
+          phone,
+          "Who are the tickets for? Please reply with their phone number in the format 07XX..."
+        );
       } else {
         await whatsappService.sendText(
           phone,
-          "Please select a payment method using the buttons above."
+          "Please choose how to continue from the checkout list above."
         );
       }
     } catch (error) {
@@ -1090,11 +1996,13 @@ class ConversationHandler {
     phone: string,
     buttonId: string | undefined,
     body: string,
-    data: SessionData,
+    session: Session,
     userId: string
   ): Promise<void> {
+    const { data } = session;
+
     try {
-      if (!data.tierId || !data.quantity || !data.totalAmount) {
+      if (!data.cart?.length || !data.totalAmount) {
         throw new AppError('Missing session data for payment', 500);
       }
 
@@ -1116,51 +2024,274 @@ class ConversationHandler {
         return; // Stay in same state
       }
 
-      // Create booking
-      const booking = await prisma.booking.create({
-        data: {
-          userId,
-          ticketTierId: data.tierId,
-          quantity: data.quantity,
-          totalAmount: new Prisma.Decimal(data.totalAmount),
-          status: 'AWAITING_PAYMENT',
-          paymentMethod: 'MPESA',
-          paymentPhoneNumber: paymentPhone,
-          expiryTime: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
-        },
+      // Create booking (holds the tickets)
+      const held = await this.createHeldBooking(userId, data, 'MPESA', paymentPhone);
+
+      if ('soldOut' in held) {
+        await this.sendSoldOutDuringCheckout(phone, data.cart, session);
+        return;
+      }
+
+      if ('promoError' in held) {
+        await this.sendPromoRemovedDuringCheckout(phone, held.promoError, data.cart, userId, session);
+        return;
+      }
+
+      const { booking } = held;
+
+      // Update session to track STK push (before the push, so a duplicate message can't send a second one)
+      const claimed = await redisService.transitionSession(phone, session, BotState.AWAITING_STK_PUSH, {
+        tempBookingId: booking.id,
+        stkResends: 0,
       });
+      if (!claimed) {
+        // Another message moved the checkout on - don't leave a second booking holding tickets
+        await ticketService.releaseUnpaidBooking(booking.id, 'CANCELLED', 'SESSION_CONFLICT');
+        return;
+      }
 
       // Initiate STK Push
       try {
         const stkResponse = await intaSendService.initiateSTKPush(
           paymentPhone,
-          data.totalAmount,
+          booking.totalAmount.toNumber(),
           booking.id // apiRef
         );
 
+        // Keep the invoice ID so the payment status can be checked on demand
+        await prisma.booking.update({
+          where: { id: booking.id },
+          data: { paymentReference: stkResponse.invoiceId },
+        });
+
         await whatsappService.sendText(
           phone,
           "STK Push sent! Please enter your M-Pesa PIN to complete payment."
         );
-
-        // Update session to track STK push
-        await redisService.updateSession(phone, BotState.AWAITING_STK_PUSH, {
-          tempBookingId: booking.id,
-        });
       } catch (stkError) {
         logger.error('STK Push failed:', stkError);
 
-        // Soft retry - don't reset to IDLE
-        await whatsappService.sendText(
+        // No payment can arrive for this booking - free its hold
+        await ticketService.releaseUnpaidBooking(booking.id, 'FAILED', 'STK_PUSH_FAILED');
+
+        // Soft retry - don't reset to IDLE; return to payment method selection
+        const reverted = await redisService.transitionSession(phone, BotState.AWAITING_STK_PUSH, BotState.AWAITING_PAYMENT_METHOD, {
+          tempBookingId: undefined,
+          stkResends: undefined,
+        });
+        if (reverted) {
+          await whatsappService.sendText(
+            phone,
+            "We couldn't reach M-Pesa. Please try again or choose Card."
+          );
+        }
+      }
+    } catch (error) {
+      logger.error('Error handling AWAITING_PAYMENT_PHONE:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends the "still waiting for payment" prompt with STK options
+   */
+  private async sendStkWaitingPrompt(phone: string, message: string): Promise<void> {
+    await whatsappService.sendButtons(
+      phone,
+      message,
+      [
+        { id: 'stk_resend', title: 'Resend STK' },
+        { id: 'stk_card', title: 'Pay by card instead' },
+        { id: 'stk_cancel', title: 'Cancel payment' },
+      ]
+    );
+  }
+
+  /**
+   * Handles AWAITING_STK_PUSH state
+   * Checks the payment on every message so the user always sees the current outcome
+   */
+  private async handleAwaitingStkPush(
+    phone: string,
+    input: string,
+    session: Session,
+    userId: string
+  ): Promise<void> {
+    const { data } = session;
+
+    try {
+      if (!data.tempBookingId) {
+        throw new AppError('Booking ID missing from session', 500);
+      }
+
+      const booking = await prisma.booking.findUnique({
+        where: { id: data.tempBookingId },
+        include: {
+          items: true,
+        },
+      });
+
+      if (!booking) {
+        throw new AppError(`Booking ${data.tempBookingId} not found`, 404);
+      }
+
+      // State of the latest STK prompt (null if it couldn't be checked)
+      let pushState: string | null = null;
+
+      // Query the payment on demand (the webhook may be late or lost)
+      if (booking.status === 'AWAITING_PAYMENT' && booking.paymentMethod === 'MPESA' && booking.paymentReference) {
+        try {
+          const payment = await intaSendService.getPaymentStatus(booking.paymentReference);
+          pushState = payment.state;
+
+          if (payment.state === 'COMPLETE') {
+            const outcome = await paymentVerificationService.settle({
+              bookingId: booking.id,
+              provider: 'INTASEND',
+              paymentReference: payment.invoiceId,
+              amount: payment.amount,
+              currency: payment.currency,
+              paymentPhone: payment.account,
+            });
+
+            if (outcome !== 'COMPLETED' && outcome !== 'OVERPAID') {
+              // The user has been told what happens next
+              await redisService.transitionSession(phone, session, BotState.IDLE);
+              return;
+            }
+            booking.status = 'PAID';
+          } else if (payment.state === 'FAILED' && input !== 'stk_resend' && input !== 'stk_card' && input !== 'stk_cancel') {
+            await this.sendStkWaitingPrompt(
+              phone,
+              `Your M-Pesa payment didn't go through${payment.failedReason ? ` (${payment.failedReason})` : ''}. What would you like to do?`
+            );
+            return;
+          }
+        } catch (statusError) {
+          // Fall back to the booking state - the webhook will still complete it
+          logger.warn(`STK status check failed for booking ${booking.id}:`, statusError instanceof Error ? statusError.message : statusError);
+        }
+      }
+
+      if (booking.status === 'PAID') {
+        if (await redisService.transitionSession(phone, session, BotState.IDLE)) {
+          await whatsappService.sendText(
+            phone,
+            "✅ Payment received! Your tickets have been sent to this chat."
+          );
+        }
+        return;
+      }
+
+      if (booking.status !== 'PENDING' && booking.status !== 'AWAITING_PAYMENT') {
+        await this.returnToCategories(phone, session, "This booking is no longer active. Let's start again:");
+        return;
+      }
+
+      // IntaSend can't cancel an STK prompt: a new payment request while the last one can
+      // still be paid could charge the user twice
+      if ((input === 'stk_resend' || input === 'stk_card') && booking.paymentReference && pushState !== 'FAILED') {
+        await this.sendStkWaitingPrompt(
           phone,
-          "We couldn't reach M-Pesa. Please try again or choose Card."
+          "Your last M-Pesa prompt may still be open. Enter your PIN to pay, or wait a minute for it to expire and try again."
         );
+        return;
+      }
 
-        // Return to payment method selection
-        await redisService.updateSession(phone, BotState.AWAITING_PAYMENT_METHOD);
+      if (input === 'stk_resend') {
+        const resends = data.stkResends || 0;
+
+        if (resends >= this.MAX_STK_RESENDS) {
+          await this.sendStkWaitingPrompt(
+            phone,
+            "We've already resent the M-Pesa prompt several times. You can pay by card instead or cancel."
+          );
+          return;
+        }
+
+        // Count the resend before sending it, so a double tap can't send two
+        // (same state, so only the version read shows a concurrent resend)
+        const claimed = await redisService.transitionSession(phone, session, BotState.AWAITING_STK_PUSH, {
+          stkResends: resends + 1,
+        });
+        if (!claimed) {
+          return;
+        }
+
+        try {
+          const stkResponse = await intaSendService.initiateSTKPush(
+            booking.paymentPhoneNumber || phone,
+            booking.totalAmount.toNumber(),
+            booking.id // apiRef
+          );
+
+          // Give the user a fresh payment window (only while still unpaid)
+          await prisma.booking.updateMany({
+            where: {
+              id: booking.id,
+              status: {
+                in: ['PENDING', 'AWAITING_PAYMENT'],
+              },
+            },
+            data: {
+              paymentReference: stkResponse.invoiceId,
+              expiryTime: new Date(Date.now() + 10 * 60 * 1000), // 10 minutes
+            },
+          });
+
+          await whatsappService.sendText(
+            phone,
+            "STK Push resent! Please enter your M-Pesa PIN to complete payment."
+          );
+        } catch (stkError) {
+          logger.error('STK Push resend failed:', stkError);
+          await this.sendStkWaitingPrompt(
+            phone,
+            "We couldn't reach M-Pesa. Please try again or pay by card."
+          );
+        }
+        return;
       }
+
+      if (input === 'stk_card') {
+        // Reset to IDLE (waiting for webhook)
+        if (!await redisService.transitionSession(phone, session, BotState.IDLE)) {
+          return;
+        }
+
+        // Same booking (and hold) - whichever payment lands first completes it
+        await prisma.booking.update({
+          where: { id: booking.id },
+          data: { paymentMethod: 'CARD' },
+        });
+
+        await this.sendCardPaymentLink(phone, booking.id, booking.totalAmount.toNumber(), userId);
+        return;
+      }
+
+      if (input === 'stk_cancel') {
+        if (!await redisService.transitionSession(phone, session, BotState.IDLE)) {
+          return;
+        }
+
+        await ticketService.releaseUnpaidBooking(booking.id, 'CANCELLED', 'USER_CANCELLED');
+        await this.releaseCartLocks(
+          phone,
+          booking.items.map((item) => ({ tierId: item.ticketTierId, quantity: item.quantity }))
+        );
+        await whatsappService.sendText(
+          phone,
+          "Your booking has been cancelled. Send \"Hi\" whenever you're ready to book again."
+        );
+        return;
+      }
+
+      await this.sendStkWaitingPrompt(
+        phone,
+        `⏳ Still waiting for your M-Pesa PIN for KES ${booking.totalAmount.toString()}.\n\nCheck your phone for the M-Pesa prompt.`
+      );
     } catch (error) {
-      logger.error('Error handling AWAITING_PAYMENT_PHONE:', error);
+      logger.error('Error handling AWAITING_STK_PUSH:', error);
       throw error;
     }
   }
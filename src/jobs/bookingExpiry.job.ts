@@ -0,0 +1,133 @@
+import dotenv from 'dotenv';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import whatsappService from '../services/whatsapp.service';
+import ticketService, {
+  BOOKING_ITEMS_INCLUDE,
+  EXPIRED_BOOKING_REASON,
+  bookingEventTitles,
+  describeBookingItems,
+} from '../services/ticket.service';
+
+dotenv.config();
+
+const SWEEP_INTERVAL_MS = parseInt(process.env.BOOKING_SWEEP_INTERVAL_MS || '60000', 10); // Default 1 minute
+const EXPIRY_GRACE_SECONDS = parseInt(process.env.BOOKING_EXPIRY_GRACE_SECONDS || '60', 10);
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * BookingExpiryJob cancels bookings whose payment window has lapsed
+ * Releases the user's tier lock, clears their checkout session and lets them know
+ * Payments that still arrive later are handled by TicketService.completeBooking
+ */
+class BookingExpiryJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+
+  /**
+   * Starts sweeping on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return; // Already started
+    }
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        logger.error('Booking expiry sweep failed:', error);
+      });
+    }, SWEEP_INTERVAL_MS);
+
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+
+    logger.info(`Booking expiry sweeper started (interval=${SWEEP_INTERVAL_MS}ms, grace=${EXPIRY_GRACE_SECONDS}s)`);
+  }
+
+  /**
+   * Stops the sweeper
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs one sweep over expired unpaid bookings
+   * @returns Number of bookings expired
+   */
+  async run(): Promise<number> {
+    if (this.isRunning) {
+      return 0; // Previous sweep still in progress
+    }
+
+    this.isRunning = true;
+
+    try {
+      // Grace period gives in-flight payment callbacks a chance to land first
+      const cutoff = new Date(Date.now() - EXPIRY_GRACE_SECONDS * 1000);
+
+      const expired = await prisma.booking.findMany({
+        where: {
+          status: {
+            in: ['PENDING', 'AWAITING_PAYMENT'],
+          },
+          expiryTime: {
+            lt: cutoff,
+          },
+        },
+        include: {
+          user: true,
+          ...BOOKING_ITEMS_INCLUDE,
+        },
+        orderBy: {
+          expiryTime: 'asc',
+        },
+        take: SWEEP_BATCH_SIZE,
+      });
+
+      let count = 0;
+
+      for (const booking of expired) {
+        try {
+          const released = await ticketService.releaseUnpaidBooking(
+            booking.id,
+            'CANCELLED',
+            EXPIRED_BOOKING_REASON
+          );
+
+          if (!released) {
+            continue; // Paid or cancelled while we were sweeping
+          }
+
+          count++;
+          const phone = booking.user.phoneNumber;
+
+          // Let the user start a new checkout for this tier
+          await ticketService.releaseUserCheckout(booking, phone);
+
+          await whatsappService.sendBookingUpdate(
+            phone,
+            `⌛ Your booking for *${bookingEventTitles(booking.items)}* (${describeBookingItems(booking.items)}) ` +
+            `expired before we received payment.\n\nSend "Hi" to start a new booking.`
+          );
+        } catch (error) {
+          logger.error(`Failed to expire booking ${booking.id}:`, error);
+        }
+      }
+
+      if (count > 0) {
+        logger.info(`Booking expiry sweep: expired ${count} booking(s)`);
+      }
+
+      return count;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
+
+// Export singleton instance
+export default new BookingExpiryJob();
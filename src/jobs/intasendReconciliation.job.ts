@@ -0,0 +1,43 @@
+import dotenv from 'dotenv';
+import { intaSendService } from '../services/payment';
+import { PaymentReconciliationJob, ProviderPaymentStatus } from './paymentReconciliation.job';
+
+dotenv.config();
+
+/**
+ * IntaSendReconciliationJob catches M-Pesa payments whose webhook never arrived
+ * Bookings are checked by every STK invoice issued for them.
+ */
+class IntaSendReconciliationJob extends PaymentReconciliationJob {
+  constructor() {
+    super({
+      provider: 'INTASEND',
+      label: 'IntaSend',
+      paymentMethod: 'MPESA',
+      paymentLabel: 'M-Pesa',
+      referenceField: 'paymentReference',
+      intervalMs: parseInt(process.env.INTASEND_RECONCILE_INTERVAL_MS || '300000', 10), // Default 5 minutes
+      minAgeSeconds: parseInt(process.env.INTASEND_RECONCILE_MIN_AGE_SECONDS || '120', 10),
+    });
+  }
+
+  /**
+   * Looks up an STK invoice with IntaSend
+   */
+  protected async lookupStatus(invoiceId: string): Promise<ProviderPaymentStatus> {
+    const payment = await intaSendService.getPaymentStatus(invoiceId);
+
+    return {
+      state: payment.state === 'COMPLETE' ? 'PAID' : payment.state === 'FAILED' ? 'FAILED' : 'PENDING',
+      merchantReference: payment.apiRef,
+      paymentReference: payment.invoiceId,
+      amount: payment.amount,
+      currency: payment.currency,
+      paymentPhone: payment.account,
+      failedReason: payment.failedReason,
+    };
+  }
+}
+
+// Export singleton instance
+export default new IntaSendReconciliationJob();
@@ -0,0 +1,366 @@
+import { Booking, PaymentMethod, PaymentProvider, Prisma, User } from '@prisma/client';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import whatsappService from '../services/whatsapp.service';
+import ticketService from '../services/ticket.service';
+import {
+  paymentLogService,
+  paymentVerificationService,
+  ReconciliationMismatch,
+  ReconciliationReport,
+} from '../services/payment';
+
+const RELEASED_LOOKBACK_HOURS = 24;
+const RECONCILE_BATCH_SIZE = 50;
+const RELEASED_BATCH_SIZE = 20; // Late-payment checks never crowd out unpaid bookings
+
+/**
+ * A payment's state as reported by the provider
+ */
+export interface ProviderPaymentStatus {
+  state: 'PAID' | 'FAILED' | 'PENDING';
+  merchantReference?: string; // Our booking ID, as the provider recorded it
+  paymentReference: string; // Reference to complete the booking with
+  amount?: number;
+  currency?: string;
+  paymentPhone?: string;
+  failedReason?: string;
+}
+
+/**
+ * What sets one provider's reconciler apart
+ */
+export interface ReconciliationOptions {
+  provider: PaymentProvider;
+  label: string; // Provider name for logs
+  paymentMethod: PaymentMethod;
+  paymentLabel: string; // Payment name for users (e.g. M-Pesa)
+  referenceField: 'paymentReference' | 'orderTrackingId'; // Booking field holding the latest request (before requests were logged)
+  intervalMs: number;
+  minAgeSeconds: number; // Time the webhook gets to arrive before a booking is checked
+}
+
+/**
+ * PaymentReconciliationJob catches payments whose webhook never arrived
+ * Checks unpaid bookings (and recently released ones, for late payments) against the
+ * provider and completes or fails them. Every payment request issued for a booking is
+ * checked, not just the latest, since an earlier STK prompt or order may be the one paid.
+ * Anything that cannot be settled automatically is listed in the report as a mismatch.
+ * Providers supply the status lookup.
+ */
+export abstract class PaymentReconciliationJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning: boolean = false;
+  private lastReport: ReconciliationReport | null = null;
+
+  constructor(private readonly options: ReconciliationOptions) {}
+
+  /**
+   * Looks up a booking's payment with the provider
+   * @param reference - The booking's referenceField value
+   */
+  protected abstract lookupStatus(reference: string): Promise<ProviderPaymentStatus>;
+
+  /**
+   * Starts reconciling on a fixed interval
+   */
+  start(): void {
+    if (this.timer) {
+      return; // Already started
+    }
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) => {
+        logger.error(`${this.options.label} reconciliation failed:`, error);
+      });
+    }, this.options.intervalMs);
+
+    // Don't keep the process alive just for the reconciler
+    this.timer.unref();
+
+    logger.info(`${this.options.label} reconciliation started (interval=${this.options.intervalMs}ms)`);
+  }
+
+  /**
+   * Stops the reconciler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Report from the most recent pass (null until the first pass finishes)
+   */
+  getLastReport(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  /**
+   * Fails an unpaid booking whose payment failed and tells the user
+   */
+  private async failBooking(booking: Booking & { user: User }, reason?: string): Promise<boolean> {
+    const released = await ticketService.releaseUnpaidBooking(booking.id, 'FAILED', 'PAYMENT_FAILED');
+
+    if (!released) {
+      return false; // Paid or released in the meantime
+    }
+
+    const phone = booking.user.phoneNumber;
+
+    await ticketService.releaseUserCheckout(booking, phone);
+
+    await whatsappService.sendBookingUpdate(
+      phone,
+      `❌ Your ${this.options.paymentLabel} payment of KES ${booking.totalAmount} didn't go through${reason ? ` (${reason})` : ''}.\n\n` +
+      `Send "Hi" to try again.`
+    );
+
+    return true;
+  }
+
+  /**
+   * Stops polling a released booking the provider reports as unpaid
+   */
+  private async markReconciled(booking: Booking): Promise<void> {
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { lastReconciledAt: new Date() },
+    });
+  }
+
+  /**
+   * Every reference the provider was asked to collect for a booking
+   * Falls back to the booking's stored reference for requests made before they were logged
+   */
+  private async referencesFor(booking: Booking): Promise<string[]> {
+    const references = await paymentLogService.issuedReferences(booking.id, this.options.provider);
+    const stored = booking[this.options.referenceField];
+
+    if (stored && booking.paymentMethod === this.options.paymentMethod && !references.includes(stored)) {
+      references.push(stored);
+    }
+
+    return references;
+  }
+
+  /**
+   * Bookings to check this pass: unpaid ones first, then a bounded batch of released ones
+   */
+  private async findBookings(): Promise<Array<Booking & { user: User }>> {
+    const now = Date.now();
+    const { provider, paymentMethod, referenceField } = this.options;
+
+    const reconcilable: Prisma.BookingWhereInput = {
+      // Asked this provider for a payment (the user may have switched method since)
+      OR: [
+        {
+          paymentLogs: {
+            some: {
+              provider,
+              source: 'REQUEST',
+            },
+          },
+        },
+        {
+          paymentMethod,
+          [referenceField]: {
+            not: null,
+          },
+        },
+      ],
+      // Already queued for support
+      paymentExceptions: {
+        none: {},
+      },
+    };
+
+    // Unpaid, and old enough that the webhook should have arrived
+    const unpaid = await prisma.booking.findMany({
+      where: {
+        ...reconcilable,
+        status: 'AWAITING_PAYMENT',
+        createdAt: {
+          lt: new Date(now - this.options.minAgeSeconds * 1000),
+        },
+      },
+      include: {
+        user: true,
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      take: RECONCILE_BATCH_SIZE,
+    });
+
+    // Released unpaid recently - the payment may still have gone through
+    const released = await prisma.booking.findMany({
+      where: {
+        ...reconcilable,
+        status: {
+          in: ['CANCELLED', 'FAILED'],
+        },
+        cancelReason: {
+          not: null,
+          notIn: ['PAYMENT_FAILED'], // Already known to have failed
+        },
+        refundRequest: null,
+        lastReconciledAt: null,
+        updatedAt: {
+          gt: new Date(now - RELEASED_LOOKBACK_HOURS * 60 * 60 * 1000),
+        },
+      },
+      include: {
+        user: true,
+      },
+      orderBy: {
+        updatedAt: 'asc',
+      },
+      take: RELEASED_BATCH_SIZE,
+    });
+
+    return [...unpaid, ...released];
+  }
+
+  /**
+   * Runs one reconciliation pass
+   * @returns Report of what was checked, settled and left as a mismatch
+   */
+  async run(): Promise<ReconciliationReport | null> {
+    if (this.isRunning) {
+      return null; // Previous pass still in progress
+    }
+
+    this.isRunning = true;
+
+    const { provider, label, referenceField } = this.options;
+
+    const report: ReconciliationReport = {
+      provider,
+      startedAt: new Date().toISOString(),
+      finishedAt: '',
+      checked: 0,
+      completed: 0,
+      failed: 0,
+      pending: 0,
+      mismatches: [],
+    };
+
+    const mismatch = (
+      booking: Booking,
+      issue: ReconciliationMismatch['issue'],
+      details: string,
+      reference: string | null = booking[referenceField]
+    ): void => {
+      report.mismatches.push({
+        bookingId: booking.id,
+        paymentReference: reference,
+        issue,
+        details,
+      });
+    };
+
+    try {
+      const bookings = await this.findBookings();
+
+      for (const booking of bookings) {
+        report.checked++;
+
+        const payments: ProviderPaymentStatus[] = [];
+        let unresolved = false; // Something needs support, or another pass
+
+        for (const reference of await this.referencesFor(booking)) {
+          let payment: ProviderPaymentStatus;
+          try {
+            payment = await this.lookupStatus(reference);
+          } catch (error) {
+            mismatch(booking, 'STATUS_CHECK_FAILED', error instanceof Error ? error.message : 'Unknown error', reference);
+            unresolved = true;
+            continue;
+          }
+
+          if (payment.merchantReference && payment.merchantReference !== booking.id) {
+            mismatch(booking, 'REFERENCE_MISMATCH', `Provider merchant reference is ${payment.merchantReference}`, reference);
+            unresolved = true;
+            continue;
+          }
+
+          payments.push(payment);
+        }
+
+        const paid = payments.filter((payment) => payment.state === 'PAID');
+
+        for (const payment of paid) {
+          try {
+            const outcome = await paymentVerificationService.settle({
+              bookingId: booking.id,
+              provider,
+              paymentReference: payment.paymentReference,
+              amount: payment.amount,
+              currency: payment.currency,
+              paymentPhone: payment.paymentPhone,
+            });
+
+            if (outcome === 'COMPLETED' || outcome === 'OVERPAID') {
+              await ticketService.sendPaymentConfirmation(booking.id);
+              report.completed++;
+              logger.info(`Reconciled ${label} payment: booking=${booking.id}, reference=${payment.paymentReference}`);
+            }
+            if (outcome !== 'COMPLETED') {
+              mismatch(
+                booking,
+                outcome === 'CURRENCY_MISMATCH' || outcome === 'DUPLICATE_PAYMENT' ? outcome : 'AMOUNT_MISMATCH',
+                `Paid ${payment.amount} ${payment.currency || 'KES'}, expected ${booking.totalAmount} KES (${outcome}, queued as payment exception)`,
+                payment.paymentReference
+              );
+            }
+          } catch (error) {
+            mismatch(booking, 'COMPLETION_FAILED', error instanceof Error ? error.message : 'Unknown error', payment.paymentReference);
+          }
+        }
+
+        if (paid.length > 0 || unresolved) {
+          continue;
+        }
+
+        const failed = payments.length > 0 && payments.every((payment) => payment.state === 'FAILED');
+
+        if (failed) {
+          // Only once every request has failed, and not after the user switched payment method
+          const payable = booking.status === 'AWAITING_PAYMENT' && booking.paymentMethod === this.options.paymentMethod;
+          if (payable && await this.failBooking(booking, payments[payments.length - 1].failedReason)) {
+            report.failed++;
+          }
+        } else {
+          // Not paid (yet); expiry releases the booking
+          report.pending++;
+        }
+
+        if (booking.status !== 'AWAITING_PAYMENT') {
+          // Released and still unpaid - a late payment arrives by webhook instead
+          await this.markReconciled(booking);
+        }
+      }
+
+      report.finishedAt = new Date().toISOString();
+      this.lastReport = report;
+
+      if (report.mismatches.length > 0) {
+        logger.warn(`${label} reconciliation found ${report.mismatches.length} mismatch(es)`, {
+          mismatches: report.mismatches,
+        });
+      }
+      if (report.checked > 0) {
+        logger.info(
+          `${label} reconciliation: checked=${report.checked}, completed=${report.completed}, failed=${report.failed}, pending=${report.pending}, mismatches=${report.mismatches.length}`
+        );
+      }
+
+      return report;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import dotenv from 'dotenv';
+import { pesaPalService } from '../services/payment';
+import { PaymentReconciliationJob, ProviderPaymentStatus } from './paymentReconciliation.job';
+
+dotenv.config();
+
+// PesaPal status_code values (0 INVALID means the user has not paid yet)
+const STATUS_COMPLETED = 1;
+const STATUS_FAILED = 2;
+const STATUS_REVERSED = 3;
+
+/**
+ * PesaPalReconciliationJob catches card payments whose IPN never arrived
+ * Bookings are checked by every order tracking ID issued for them.
+ */
+class PesaPalReconciliationJob extends PaymentReconciliationJob {
+  constructor() {
+    super({
+      provider: 'PESAPAL',
+      label: 'PesaPal',
+      paymentMethod: 'CARD',
+      paymentLabel: 'card',
+      referenceField: 'orderTrackingId',
+      intervalMs: parseInt(process.env.PESAPAL_RECONCILE_INTERVAL_MS || '300000', 10), // Default 5 minutes
+      minAgeSeconds: parseInt(process.env.PESAPAL_RECONCILE_MIN_AGE_SECONDS || '120', 10),
+    });
+  }
+
+  /**
+   * Looks up a card order with PesaPal
+   */
+  protected async lookupStatus(orderTrackingId: string): Promise<ProviderPaymentStatus> {
+    const transaction = await pesaPalService.getTransactionStatus(orderTrackingId);
+
+    return {
+      state: transaction.status_code === STATUS_COMPLETED
+        ? 'PAID'
+        : transaction.status_code === STATUS_FAILED || transaction.status_code === STATUS_REVERSED
+          ? 'FAILED'
+          : 'PENDING',
+      merchantReference: transaction.merchant_reference || transaction.order_merchant_reference,
+      paymentReference: transaction.confirmation_code || orderTrackingId,
+      amount: transaction.amount !== undefined ? Number(transaction.amount) : undefined,
+      currency: transaction.currency,
+      paymentPhone: transaction.phone_number,
+      failedReason: transaction.description,
+    };
+  }
+}
+
+// Export singleton instance
+export default new PesaPalReconciliationJob();
@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../config/logger';
+
+/**
+ * Authenticates support/admin requests
+ * Expects "Authorization: Bearer <ADMIN_API_KEY>"; all admin endpoints are disabled
+ * when ADMIN_API_KEY is not set
+ */
+export function authenticateAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  if (!adminKey) {
+    res.status(503).json({ status: 'error', code: 'DISABLED', message: 'Admin API not configured' });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json({ status: 'error', code: 'UNAUTHORIZED', message: 'Missing admin key' });
+    return;
+  }
+
+  // Compare digests so the check takes the same time regardless of the key length
+  const expected = crypto.createHash('sha256').update(adminKey).digest();
+  const provided = crypto.createHash('sha256').update(token).digest();
+
+  if (!crypto.timingSafeEqual(expected, provided)) {
+    logger.warn('Admin request rejected: invalid key', { ip: req.ip, path: req.path });
+    res.status(401).json({ status: 'error', code: 'UNAUTHORIZED', message: 'Invalid admin key' });
+    return;
+  }
+
+  next();
+}
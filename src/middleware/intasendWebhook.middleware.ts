@@ -0,0 +1,61 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../config/logger';
+import { incrementCounter } from '../utils/metrics';
+
+/**
+ * Rejects an IntaSend webhook and counts the reason
+ */
+function reject(req: Request, res: Response, status: number, reason: string): void {
+  incrementCounter('intasend_webhook_rejected', { reason });
+  logger.warn(`IntaSend webhook rejected: ${reason}`, { ip: req.ip });
+  res.status(status).send('Unauthorized');
+}
+
+/**
+ * Authenticates IntaSend webhooks before they reach the controller
+ * - challenge must equal INTASEND_WEBHOOK_CHALLENGE (the secret set on the webhook in the
+ *   IntaSend dashboard)
+ * - when INTASEND_WEBHOOK_IPS is set (comma-separated), the caller must be one of them;
+ *   behind a proxy set TRUST_PROXY so req.ip is the real client
+ * Payment state is still re-checked with IntaSend before tickets are issued.
+ */
+export function verifyIntaSendWebhook(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const expectedChallenge = process.env.INTASEND_WEBHOOK_CHALLENGE;
+  if (!expectedChallenge) {
+    logger.error('INTASEND_WEBHOOK_CHALLENGE not configured - cannot authenticate IntaSend webhooks');
+    reject(req, res, 401, 'not_configured');
+    return;
+  }
+
+  const allowedIps = (process.env.INTASEND_WEBHOOK_IPS || '')
+    .split(',')
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+
+  if (allowedIps.length > 0 && !allowedIps.includes(req.ip || '')) {
+    reject(req, res, 403, 'untrusted_source');
+    return;
+  }
+
+  const challenge = req.body?.challenge;
+  if (typeof challenge !== 'string' || !challenge) {
+    reject(req, res, 401, 'missing_challenge');
+    return;
+  }
+
+  // Compare digests so the check takes the same time regardless of the value
+  const expected = crypto.createHash('sha256').update(expectedChallenge).digest();
+  const provided = crypto.createHash('sha256').update(challenge).digest();
+
+  if (!crypto.timingSafeEqual(expected, provided)) {
+    reject(req, res, 401, 'invalid_challenge');
+    return;
+  }
+
+  next();
+}
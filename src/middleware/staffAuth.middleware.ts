@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../config/logger';
+import { redemptionService } from '../services/scanner';
+
+/**
+ * Authenticates door staff scanner requests
+ * Expects "Authorization: Bearer <scanner token>" and attaches the staff to res.locals.staff
+ */
+export async function authenticateStaff(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const header = req.headers.authorization || '';
+    const [scheme, token] = header.split(' ');
+
+    if (scheme !== 'Bearer' || !token) {
+      res.status(401).json({ status: 'error', code: 'UNAUTHORIZED', message: 'Missing scanner token' });
+      return;
+    }
+
+    const staff = await redemptionService.findStaffByToken(token);
+
+    if (!staff) {
+      logger.warn('Scanner request rejected: unknown or disabled token', { ip: req.ip });
+      res.status(401).json({ status: 'error', code: 'UNAUTHORIZED', message: 'Invalid scanner token' });
+      return;
+    }
+
+    res.locals.staff = staff;
+    next();
+  } catch (error) {
+    logger.error('Scanner authentication error:', error);
+    res.status(500).json({ status: 'error', code: 'INTERNAL', message: 'Internal error' });
+  }
+}
@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import adminController from '../controllers/admin.controller';
+import { authenticateAdmin } from '../middleware/adminAuth.middleware';
+
+const router = Router();
+
+// All admin endpoints require the admin key
+router.use(authenticateAdmin);
+
+/**
+ * Payment reconciliation reports (provider: intasend | pesapal)
+ * GET /admin/reconciliation/:provider - Latest report
+ * POST /admin/reconciliation/:provider - Run a pass now
+ */
+router.get('/reconciliation/:provider', (req, res) => {
+  adminController.getReconciliation(req, res).catch((error) => {
+    console.error('Unhandled reconciliation report error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/reconciliation/:provider', (req, res) => {
+  adminController.runReconciliation(req, res).catch((error) => {
+    console.error('Unhandled reconciliation run error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Payment timeline for a booking (support)
+ * GET /admin/bookings/:bookingId/payments
+ */
+router.get('/bookings/:bookingId/payments', (req, res) => {
+  adminController.getPaymentTimeline(req, res).catch((error) => {
+    console.error('Unhandled payment timeline error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Payment exceptions queue (amount/currency mismatches)
+ * GET /admin/payment-exceptions?status=OPEN - List exceptions
+ * POST /admin/payment-exceptions/:id/resolve - Issue tickets, refund or dismiss
+ */
+router.get('/payment-exceptions', (req, res) => {
+  adminController.listPaymentExceptions(req, res).catch((error) => {
+    console.error('Unhandled payment exceptions error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/payment-exceptions/:id/resolve', (req, res) => {
+  adminController.resolvePaymentException(req, res).catch((error) => {
+    console.error('Unhandled payment exception resolve error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Outbound WhatsApp dead letters (failed after every retry)
+ * GET /admin/dead-letters?status=PENDING - List dead letters
+ * POST /admin/dead-letters/:id/replay - Resend one
+ */
+router.get('/dead-letters', (req, res) => {
+  adminController.listDeadLetters(req, res).catch((error) => {
+    console.error('Unhandled dead letters error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/dead-letters/:id/replay', (req, res) => {
+  adminController.replayDeadLetter(req, res).catch((error) => {
+    console.error('Unhandled dead letter replay error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Promo codes (early bird, influencer discounts)
+ * GET /admin/promo-codes - List promo codes
+ * POST /admin/promo-codes - Create a promo code
+ * POST /admin/promo-codes/:id/deactivate - Stop new bookings from using it
+ */
+router.get('/promo-codes', (req, res) => {
+  adminController.listPromoCodes(req, res).catch((error) => {
+    console.error('Unhandled promo codes error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/promo-codes', (req, res) => {
+  adminController.createPromoCode(req, res).catch((error) => {
+    console.error('Unhandled promo code create error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/promo-codes/:id/deactivate', (req, res) => {
+  adminController.deactivatePromoCode(req, res).catch((error) => {
+    console.error('Unhandled promo code deactivate error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Operational counters
+ * GET /admin/metrics
+ */
+router.get('/metrics', (req, res) => {
+  adminController.getMetrics(req, res).catch((error) => {
+    console.error('Unhandled metrics error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+export default router;
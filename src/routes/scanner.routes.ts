@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import scannerController from '../controllers/scanner.controller';
+import { authenticateStaff } from '../middleware/staffAuth.middleware';
+
+const router = Router();
+
+// All scanner endpoints require a door staff token
+router.use(authenticateStaff);
+
+/**
+ * Ticket signing public keys (for offline QR verification)
+ * GET /scanner/keys
+ */
+router.get('/keys', (req, res) => {
+  scannerController.getKeys(req, res).catch((error) => {
+    console.error('Unhandled scanner keys error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Ticket redemption endpoint
+ * POST /scanner/redeem
+ */
+router.post('/redeem', (req, res) => {
+  scannerController.redeem(req, res).catch((error) => {
+    // Fallback error handler (should not reach here if controller handles properly)
+    console.error('Unhandled redemption error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+/**
+ * Offline scanning endpoints
+ * GET /scanner/manifest - Signed list of valid tickets for the staff member's event
+ * POST /scanner/sync - Upload scans recorded while offline
+ */
+router.get('/manifest', (req, res) => {
+  scannerController.getManifest(req, res).catch((error) => {
+    console.error('Unhandled scanner manifest error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+router.post('/sync', (req, res) => {
+  scannerController.syncScans(req, res).catch((error) => {
+    console.error('Unhandled scanner sync error:', error);
+    res.status(500).json({ status: 'error', message: 'Internal error' });
+  });
+});
+
+export default router;
@@ -1,13 +1,14 @@
 import { Router } from 'express';
 import webhookController from '../controllers/webhook.controller';
+import { verifyIntaSendWebhook } from '../middleware/intasendWebhook.middleware';
 
 const router = Router();
 
 /**
- * IntaSend webhook endpoint
+ * IntaSend webhook endpoint (challenge secret + optional IP allowlist)
  * POST /webhooks/intasend
  */
-router.post('/intasend', (req, res) => {
+router.post('/intasend', verifyIntaSendWebhook, (req, res) => {
   webhookController.handleIntaSend(req, res).catch((error) => {
     // Fallback error handler (should not reach here if controller handles properly)
     console.error('Unhandled webhook error:', error);
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import whatsappController from '../controllers/whatsapp.controller';
+import { verifyMetaSignature } from '../middleware/metaSignature.middleware';
 
 const router = Router();
 
 /**
  * WhatsApp webhook endpoints
  * GET /webhook - Webhook verification (Meta requirement)
- * POST /webhook - Incoming messages and events
+ * POST /webhook - Incoming messages and events (X-Hub-Signature-256 verified)
  */
 router.get('/webhook', async (req, res) => {
   try {
@@ -20,7 +21,7 @@ router.get('/webhook', async (req, res) => {
   }
 });
 
-router.post('/webhook', async (req, res) => {
+router.post('/webhook', verifyMetaSignature, async (req, res) => {
   try {
     await whatsappController.receiveWebhook(req, res);
   } catch (error) {
@@ -1,6 +1,10 @@
 import app from './app';
 import dotenv from 'dotenv';
 import logger from './config/logger';
+import bookingExpiryJob from './jobs/bookingExpiry.job';
+import intaSendReconciliationJob from './jobs/intasendReconciliation.job';
+import pesaPalReconciliationJob from './jobs/pesapalReconciliation.job';
+import inboundQueueService from './services/inboundQueue.service';
 
 // Load environment variables
 dotenv.config();
@@ -25,6 +29,12 @@ try {
   const server = app.listen(PORT, () => {
     logger.info('AccessKE Bot Starting...');
     logger.info(`Server running on port ${PORT}`);
+
+    // Background jobs
+    bookingExpiryJob.start();
+    intaSendReconciliationJob.start();
+    pesaPalReconciliationJob.start();
+    inboundQueueService.startRecovery();
   });
 
   // Handle server errors
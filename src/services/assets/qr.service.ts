@@ -1,6 +1,17 @@
 import QRCode from 'qrcode';
 import logger from '../../config/logger';
 import { AppError } from '../../utils/AppError';
+import ticketSigningService from './signing.service';
+
+/**
+ * Ticket identity encoded into the QR code
+ */
+export interface TicketQrInput {
+  id: string;
+  uniqueCode: string;
+  eventId: string;
+  tierId: string;
+}
 
 /**
  * QrCodeService handles QR code generation for tickets
@@ -8,19 +19,35 @@ import { AppError } from '../../utils/AppError';
  */
 class QrCodeService {
   /**
-   * Generates a QR code PNG buffer for a ticket unique code
-   * @param uniqueCode - The unique ticket code (e.g., "NYE-8832-XJ")
+   * Generates a QR code PNG buffer for a ticket
+   * Encodes a signed token (ticket, event, tier, issue time) so gates can verify offline.
+   * Falls back to the bare code if no signing key is configured.
+   * @param ticket - The ticket identity (uniqueCode e.g. "AE92-8X4B")
    * @returns Promise<Buffer> - PNG image buffer ready for upload
    * @throws AppError if generation fails or code is invalid
    */
-  async generateTicketCode(uniqueCode: string): Promise<Buffer> {
+  async generateTicketCode(ticket: TicketQrInput): Promise<Buffer> {
+    const { uniqueCode } = ticket;
+
     // Fail fast: validate input
     if (!uniqueCode) {
       throw new AppError('Unique code is required for QR generation', 400);
     }
 
+    let content = uniqueCode;
+    if (ticketSigningService.isConfigured()) {
+      content = ticketSigningService.signTicket({
+        tid: ticket.id,
+        eid: ticket.eventId,
+        tier: ticket.tierId,
+        code: uniqueCode,
+      });
+    } else {
+      logger.warn(`Ticket signing not configured, QR for ${uniqueCode} carries the bare code`);
+    }
+
     try {
-      const buffer = await QRCode.toBuffer(uniqueCode, {
+      const buffer = await QRCode.toBuffer(content, {
         type: 'png',
         errorCorrectionLevel: 'H', // High error correction for low-light scanning
         margin: 2,
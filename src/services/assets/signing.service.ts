@@ -0,0 +1,166 @@
+import crypto, { KeyObject } from 'crypto';
+import dotenv from 'dotenv';
+import logger from '../../config/logger';
+import { AppError } from '../../utils/AppError';
+import {
+  TicketTokenClaims,
+  signTicketToken,
+  verifyTicketToken,
+} from '../../utils/ticketToken';
+
+dotenv.config();
+
+/**
+ * Reads a PEM key from the environment (supports "\n"-escaped single-line values)
+ */
+function readPem(value: string): string {
+  return value.includes('\\n') ? value.replace(/\\n/g, '\n') : value;
+}
+
+/**
+ * TicketSigningService signs and verifies ticket QR tokens
+ *
+ * Key rotation: generate a new key (scripts/generate-signing-key.ts), move the old
+ * key's public half into TICKET_VERIFY_PUBLIC_KEYS under its key ID, then set the
+ * new TICKET_SIGNING_KEY_ID / TICKET_SIGNING_PRIVATE_KEY. Tickets issued under the
+ * old key keep verifying until it is removed from the list.
+ */
+class TicketSigningService {
+  private privateKey: KeyObject | null = null;
+  private publicKeys: Record<string, KeyObject> | null = null;
+  private readonly keyId: string;
+
+  constructor() {
+    this.keyId = process.env.TICKET_SIGNING_KEY_ID || 'k1';
+  }
+
+  /**
+   * Loads keys from the environment on first use
+   * @throws AppError if a configured key cannot be parsed
+   */
+  private loadKeys(): void {
+    if (this.publicKeys) {
+      return; // Already loaded
+    }
+
+    const keys: Record<string, KeyObject> = {};
+
+    try {
+      const privatePem = process.env.TICKET_SIGNING_PRIVATE_KEY;
+      if (privatePem) {
+        this.privateKey = crypto.createPrivateKey(readPem(privatePem));
+        keys[this.keyId] = crypto.createPublicKey(this.privateKey);
+      }
+
+      // Retired keys still accepted for verification: { "<keyId>": "<public PEM>" }
+      const retired = process.env.TICKET_VERIFY_PUBLIC_KEYS;
+      if (retired) {
+        const parsed: Record<string, string> = JSON.parse(retired);
+        for (const [kid, pem] of Object.entries(parsed)) {
+          if (kid !== this.keyId) {
+            keys[kid] = crypto.createPublicKey(readPem(pem));
+          }
+        }
+      }
+    } catch (error) {
+      throw new AppError(
+        `Ticket signing keys are invalid: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        500
+      );
+    }
+
+    this.publicKeys = keys;
+    logger.info(`Ticket signing keys loaded: active=${this.privateKey ? this.keyId : 'none'}, verify=${Object.keys(keys).join(',') || 'none'}`);
+  }
+
+  /**
+   * Whether tickets can be signed (a private key is configured)
+   */
+  isConfigured(): boolean {
+    this.loadKeys();
+    return this.privateKey !== null;
+  }
+
+  /**
+   * Signs a ticket for embedding in its QR code
+   * @param ticket - Ticket identity
+   * @returns Compact signed token
+   * @throws AppError if no signing key is configured
+   */
+  signTicket(ticket: Omit<TicketTokenClaims, 'iat'>): string {
+    this.loadKeys();
+
+    if (!this.privateKey) {
+      throw new AppError(
+        'Ticket signing key not configured. Set TICKET_SIGNING_PRIVATE_KEY',
+        500
+      );
+    }
+
+    return signTicketToken(
+      { ...ticket, iat: Math.floor(Date.now() / 1000) },
+      this.keyId,
+      this.privateKey
+    );
+  }
+
+  /**
+   * Signs an arbitrary document (e.g., an offline scanner manifest)
+   * Devices verify the Ed25519 signature over the exact document string with getPublicKeys()
+   * @param document - The serialized document
+   * @returns Signing key ID and base64url signature
+   * @throws AppError if no signing key is configured
+   */
+  signDocument(document: string): { keyId: string; signature: string } {
+    this.loadKeys();
+
+    if (!this.privateKey) {
+      throw new AppError(
+        'Ticket signing key not configured. Set TICKET_SIGNING_PRIVATE_KEY',
+        500
+      );
+    }
+
+    const signature = crypto.sign(null, Buffer.from(document), this.privateKey);
+
+    return {
+      keyId: this.keyId,
+      signature: signature.toString('base64url'),
+    };
+  }
+
+  /**
+   * Verifies a scanned ticket token
+   * @param token - The scanned token
+   * @returns Verified claims
+   * @throws TicketTokenError if the token is malformed or forged
+   */
+  verifyToken(token: string): TicketTokenClaims {
+    this.loadKeys();
+    return verifyTicketToken(token, this.publicKeys!);
+  }
+
+  /**
+   * Public keys for gate devices to verify tokens offline
+   * @returns Algorithm, active key ID and all accepted public keys (PEM)
+   */
+  getPublicKeys(): {
+    algorithm: 'Ed25519';
+    activeKeyId: string | null;
+    keys: Array<{ kid: string; publicKey: string }>;
+  } {
+    this.loadKeys();
+
+    return {
+      algorithm: 'Ed25519',
+      activeKeyId: this.privateKey ? this.keyId : null,
+      keys: Object.entries(this.publicKeys!).map(([kid, key]) => ({
+        kid,
+        publicKey: key.export({ type: 'spki', format: 'pem' }).toString(),
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export default new TicketSigningService();
@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import redisClient from '../config/redis';
+import logger from '../config/logger';
+import { KeyedQueue } from '../utils/keyedQueue';
+import { WaContact, WaMessage } from '../types/whatsapp';
+
+const QUEUE_KEY_PREFIX = 'inbound:queue:';
+const WORKER_KEY_PREFIX = 'inbound:worker:';
+const WORKER_LOCK_TTL_MS = 120000; // Refreshed before every message; covers the slowest handler
+const QUEUE_TTL_SECONDS = 3600; // Abandoned queues (worker crashed, no new messages) clean themselves up
+const RECOVERY_INTERVAL_MS = parseInt(process.env.INBOUND_RECOVERY_INTERVAL_MS || '60000', 10);
+
+// Only delete/extend the worker lock if we still own it
+const RELEASE_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+const REFRESH_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * A queued inbound message
+ */
+export interface InboundJob {
+  message: WaMessage;
+  contact?: WaContact;
+}
+
+export type InboundHandler = (job: InboundJob) => Promise<void>;
+
+/**
+ * InboundQueueService processes each user's messages strictly one at a time
+ * Messages go onto a per-phone Redis list; whichever instance holds the phone's worker
+ * lock drains the list in order, so different users run in parallel while one user's
+ * messages never interleave their session reads and writes.
+ * Falls back to an in-process queue when Redis is unavailable.
+ * Queues left behind by a worker that crashed mid-drain are picked up by a periodic sweep.
+ */
+class InboundQueueService {
+  private handler: InboundHandler | null = null;
+  private localQueue = new KeyedQueue();
+  private recoveryTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Sets the function that processes each message
+   */
+  register(handler: InboundHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Queues a message behind any pending messages from the same sender
+   * Returns once the message is queued; processing happens in the background
+   * @param job - The message and its sender's contact entry
+   */
+  async enqueue(job: InboundJob): Promise<void> {
+    // Keyed by WhatsApp's sender ID as sent: normalizing throws for numbers outside Kenya
+    const phone = job.message.from;
+
+    try {
+      const queueKey = `${QUEUE_KEY_PREFIX}${phone}`;
+      await redisClient
+        .multi()
+        .rpush(queueKey, JSON.stringify(job))
+        .expire(queueKey, QUEUE_TTL_SECONDS)
+        .exec();
+    } catch (error) {
+      logger.warn(
+        `Redis unavailable, queueing message ${job.message.id} in-process:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      this.localQueue.run(phone, () => this.process(job)).catch(() => undefined);
+      return;
+    }
+
+    this.drain(phone).catch((error) => {
+      logger.error(`Inbound queue worker for ${phone} failed:`, error);
+    });
+  }
+
+  /**
+   * Runs the handler, logging (not rethrowing) failures so the queue keeps moving
+   */
+  private async process(job: InboundJob): Promise<void> {
+    if (!this.handler) {
+      logger.error(`No inbound handler registered, dropping message ${job.message.id}`);
+      return;
+    }
+
+    try {
+      await this.handler(job);
+    } catch (error) {
+      logger.error('WhatsApp message processing error:', {
+        messageId: job.message.id,
+        from: job.message.from,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  /**
+   * Starts sweeping for stranded queues: once now (this instance may be the one that
+   * crashed), then on a fixed interval
+   */
+  startRecovery(): void {
+    if (this.recoveryTimer) {
+      return; // Already started
+    }
+
+    const sweep = () => {
+      this.recoverStranded().catch((error) => {
+        logger.warn(
+          'Inbound queue recovery sweep failed:',
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+      });
+    };
+
+    sweep();
+    this.recoveryTimer = setInterval(sweep, RECOVERY_INTERVAL_MS);
+
+    // Don't keep the process alive just for the sweep
+    this.recoveryTimer.unref();
+
+    logger.info(`Inbound queue recovery started (interval=${RECOVERY_INTERVAL_MS}ms)`);
+  }
+
+  /**
+   * Stops the recovery sweep
+   */
+  stopRecovery(): void {
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+  }
+
+  /**
+   * Drains queues that still hold messages but have no worker (its lock expired after
+   * a crash or restart). drain() takes the worker lock first, so sweeps running on
+   * several instances never process a message twice.
+   * @returns Number of stranded queues picked up
+   */
+  async recoverStranded(): Promise<number> {
+    let recovered = 0;
+    let cursor = '0';
+
+    do {
+      const [nextCursor, queueKeys] = await redisClient.scan(cursor, 'MATCH', `${QUEUE_KEY_PREFIX}*`, 'COUNT', 100);
+      cursor = nextCursor;
+
+      for (const queueKey of queueKeys) {
+        const phone = queueKey.slice(QUEUE_KEY_PREFIX.length);
+
+        if (await redisClient.exists(`${WORKER_KEY_PREFIX}${phone}`)) {
+          continue; // A live worker is draining it
+        }
+
+        recovered++;
+        logger.warn(`Recovering stranded inbound queue for ${phone}`);
+
+        this.drain(phone).catch((error) => {
+          logger.error(`Inbound queue worker for ${phone} failed:`, error);
+        });
+      }
+    } while (cursor !== '0');
+
+    return recovered;
+  }
+
+  /**
+   * Drains the phone's queue if no other worker (on any instance) is doing so
+   */
+  private async drain(phone: string): Promise<void> {
+    const queueKey = `${QUEUE_KEY_PREFIX}${phone}`;
+    const workerKey = `${WORKER_KEY_PREFIX}${phone}`;
+    const token = randomUUID();
+
+    while (true) {
+      const acquired = await redisClient.set(workerKey, token, 'PX', WORKER_LOCK_TTL_MS, 'NX');
+      if (acquired !== 'OK') {
+        return; // Another worker owns this phone and will pick the message up
+      }
+
+      try {
+        while (true) {
+          const raw = await redisClient.lpop(queueKey);
+          if (!raw) {
+            break;
+          }
+
+          await redisClient.eval(REFRESH_SCRIPT, 1, workerKey, token, WORKER_LOCK_TTL_MS);
+
+          let job: InboundJob;
+          try {
+            job = JSON.parse(raw);
+          } catch (error) {
+            logger.error(`Dropping unreadable inbound queue entry for ${phone}`);
+            continue;
+          }
+
+          await this.process(job);
+        }
+      } finally {
+        await redisClient.eval(RELEASE_SCRIPT, 1, workerKey, token);
+      }
+
+      // A message may have been queued after our last pop but before the release
+      if ((await redisClient.llen(queueKey)) === 0) {
+        return;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export default new InboundQueueService();
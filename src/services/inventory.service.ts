@@ -0,0 +1,110 @@
+import { Prisma } from '@prisma/client';
+import logger from '../config/logger';
+
+/**
+ * Inventory holds on ticket tiers
+ *
+ * A booking in PENDING / AWAITING_PAYMENT holds its quantity in quantityReserved.
+ * The hold is taken when the booking is created, converted into quantitySold when
+ * it is paid and released when it expires or fails, always in the same transaction
+ * as the booking status change.
+ *
+ * A transaction that touches several tiers updates them in lockOrder, so two
+ * multi-tier bookings can't each hold one tier's row lock while waiting on the other.
+ */
+class InventoryService {
+  /**
+   * Tickets still on offer for a tier (not sold and not held by an unpaid booking)
+   */
+  available(tier: { quantity: number; quantitySold: number; quantityReserved: number }): number {
+    return Math.max(tier.quantity - tier.quantitySold - tier.quantityReserved, 0);
+  }
+
+  /**
+   * Sorts cart lines by tier ID, the order tier rows are locked in
+   * @param items - The lines to update
+   * @param tierIdOf - The line's ticket tier ID
+   * @returns A sorted copy (the lines' own order is left alone)
+   */
+  lockOrder<T>(items: T[], tierIdOf: (item: T) => string): T[] {
+    return [...items].sort((a, b) => (tierIdOf(a) < tierIdOf(b) ? -1 : tierIdOf(a) > tierIdOf(b) ? 1 : 0));
+  }
+
+  /**
+   * Atomically holds tickets against the tier's capacity
+   * @param tx - Transaction client
+   * @param tierId - The ticket tier ID
+   * @param quantity - Number of tickets to hold
+   * @returns true if the hold was taken, false if not enough tickets remain
+   */
+  async reserve(tx: Prisma.TransactionClient, tierId: string, quantity: number): Promise<boolean> {
+    const updated = await tx.$executeRaw`
+      UPDATE ticket_tiers
+      SET "quantityReserved" = "quantityReserved" + ${quantity}, "updatedAt" = NOW()
+      WHERE id = ${tierId} AND quantity - "quantitySold" - "quantityReserved" >= ${quantity}
+    `;
+
+    if (updated === 0) {
+      logger.info(`Inventory hold refused: tier=${tierId}, quantity=${quantity}`);
+      return false;
+    }
+
+    logger.debug(`Inventory held: tier=${tierId}, quantity=${quantity}`);
+    return true;
+  }
+
+  /**
+   * Releases a hold (booking expired, failed or was abandoned)
+   * @param tx - Transaction client
+   * @param tierId - The ticket tier ID
+   * @param quantity - Number of held tickets to release
+   */
+  async release(tx: Prisma.TransactionClient, tierId: string, quantity: number): Promise<void> {
+    // Clamped at zero for bookings created before holds existed
+    await tx.$executeRaw`
+      UPDATE ticket_tiers
+      SET "quantityReserved" = GREATEST("quantityReserved" - ${quantity}, 0), "updatedAt" = NOW()
+      WHERE id = ${tierId}
+    `;
+
+    logger.debug(`Inventory released: tier=${tierId}, quantity=${quantity}`);
+  }
+
+  /**
+   * Converts a hold into sold tickets (booking paid)
+   * @param tx - Transaction client
+   * @param tierId - The ticket tier ID
+   * @param quantity - Number of held tickets now sold
+   */
+  async convert(tx: Prisma.TransactionClient, tierId: string, quantity: number): Promise<void> {
+    await tx.$executeRaw`
+      UPDATE ticket_tiers
+      SET "quantitySold" = "quantitySold" + ${quantity},
+          "quantityReserved" = GREATEST("quantityReserved" - ${quantity}, 0),
+          "updatedAt" = NOW()
+      WHERE id = ${tierId}
+    `;
+
+    logger.debug(`Inventory converted: tier=${tierId}, quantity=${quantity}`);
+  }
+
+  /**
+   * Sells tickets that were never held (a payment for an already expired booking)
+   * @param tx - Transaction client
+   * @param tierId - The ticket tier ID
+   * @param quantity - Number of tickets to sell
+   * @returns true if sold, false if not enough unreserved tickets remain
+   */
+  async sellUnreserved(tx: Prisma.TransactionClient, tierId: string, quantity: number): Promise<boolean> {
+    const updated = await tx.$executeRaw`
+      UPDATE ticket_tiers
+      SET "quantitySold" = "quantitySold" + ${quantity}, "updatedAt" = NOW()
+      WHERE id = ${tierId} AND quantity - "quantitySold" - "quantityReserved" >= ${quantity}
+    `;
+
+    return updated > 0;
+  }
+}
+
+// Export singleton instance
+export default new InventoryService();
@@ -0,0 +1,103 @@
+import { Prisma } from '@prisma/client';
+import redisClient from '../config/redis';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { normalizePhoneNumber } from '../utils/phoneNormalizer';
+
+const DEDUPE_TTL_SECONDS = parseInt(process.env.WA_MESSAGE_DEDUPE_TTL_SECONDS || '86400', 10); // Default 24 hours
+const DEDUPE_KEY_PREFIX = 'wamsg:';
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000; // Prune fallback rows at most once an hour
+
+/**
+ * MessageIdempotencyService makes sure each inbound WhatsApp message is handled once
+ * Meta retries webhook deliveries, so the same message ID can arrive several times,
+ * possibly on different app instances. Claims go to Redis (SET NX with a TTL) and fall
+ * back to a unique row in Postgres when Redis is unavailable.
+ */
+class MessageIdempotencyService {
+  private lastPrunedAt: number = 0;
+
+  /**
+   * Claims a message for processing
+   * @param messageId - WaMessage.id
+   * @param phone - Sender phone number (will be normalized)
+   * @returns true if this is the first delivery, false if it was already claimed
+   * Fails open (returns true) if neither Redis nor Postgres can be reached
+   */
+  async claim(messageId: string, phone: string): Promise<boolean> {
+    const normalized = normalizePhoneNumber(phone);
+
+    try {
+      const result = await redisClient.set(
+        `${DEDUPE_KEY_PREFIX}${messageId}`,
+        normalized,
+        'EX',
+        DEDUPE_TTL_SECONDS,
+        'NX'
+      );
+      return result === 'OK';
+    } catch (error) {
+      logger.warn(
+        `Redis unavailable, using Postgres to dedupe message ${messageId}:`,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+    }
+
+    return await this.claimInDatabase(messageId, normalized);
+  }
+
+  /**
+   * Postgres fallback - the unique messageId rejects a second claim
+   */
+  private async claimInDatabase(messageId: string, phone: string): Promise<boolean> {
+    try {
+      await prisma.processedMessage.create({
+        data: {
+          messageId,
+          phone,
+        },
+      });
+
+      await this.pruneExpired();
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+
+      // Better to risk a duplicate than to drop the user's message
+      logger.error(`Failed to record message ${messageId}, processing without dedupe:`, error);
+      return true;
+    }
+  }
+
+  /**
+   * Deletes fallback rows older than the dedupe window (best effort)
+   */
+  private async pruneExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PRUNE_INTERVAL_MS) {
+      return;
+    }
+    this.lastPrunedAt = now;
+
+    try {
+      const { count } = await prisma.processedMessage.deleteMany({
+        where: {
+          createdAt: {
+            lt: new Date(now - DEDUPE_TTL_SECONDS * 1000),
+          },
+        },
+      });
+
+      if (count > 0) {
+        logger.debug(`Pruned ${count} processed message record(s)`);
+      }
+    } catch (error) {
+      logger.warn('Failed to prune processed messages:', error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+}
+
+// Export singleton instance
+export default new MessageIdempotencyService();
@@ -0,0 +1,116 @@
+import { OutboundMessage, OutboundMessageStatus, OutboundMessageType } from '@prisma/client';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { incrementCounter } from '../utils/metrics';
+import { WaStatus } from '../types/whatsapp';
+
+/**
+ * An outbound message accepted by the Cloud API
+ */
+export interface OutboundMessageInput {
+  waMessageId: string;
+  recipient: string;
+  type: OutboundMessageType;
+  body?: string;
+  mediaId?: string;
+  ticketId?: string;
+  attempt?: number;
+}
+
+// Statuses a webhook may move a message out of (they can arrive out of order)
+const EARLIER_STATUSES: Record<Exclude<OutboundMessageStatus, 'ACCEPTED'>, OutboundMessageStatus[]> = {
+  SENT: ['ACCEPTED'],
+  DELIVERED: ['ACCEPTED', 'SENT'],
+  READ: ['ACCEPTED', 'SENT', 'DELIVERED'],
+  FAILED: ['ACCEPTED', 'SENT'],
+};
+
+/**
+ * OutboundMessageService records every message we send and its delivery status
+ * Status webhooks (sent/delivered/read/failed) only ever move a message forward
+ */
+class OutboundMessageService {
+  /**
+   * Records a sent message
+   * Never throws: tracking must not break the conversation
+   */
+  async record(input: OutboundMessageInput): Promise<void> {
+    try {
+      await prisma.outboundMessage.create({
+        data: {
+          waMessageId: input.waMessageId,
+          recipient: input.recipient,
+          type: input.type,
+          body: input.body,
+          mediaId: input.mediaId,
+          ticketId: input.ticketId,
+          attempt: input.attempt || 0,
+        },
+      });
+    } catch (error) {
+      logger.error(`Failed to record outbound message ${input.waMessageId}:`, error);
+    }
+  }
+
+  /**
+   * Applies a status webhook to the matching message
+   * @param status - Status entry from the webhook
+   * @returns The updated message if the status moved it forward, null if it was a
+   * replay, out of order, or for a message we didn't record
+   */
+  async applyStatus(status: WaStatus): Promise<OutboundMessage | null> {
+    const next = status.status.toUpperCase() as keyof typeof EARLIER_STATUSES;
+
+    if (!EARLIER_STATUSES[next]) {
+      logger.debug(`Ignoring unknown WhatsApp status ${status.status} for ${status.id}`);
+      return null;
+    }
+
+    const at = status.timestamp ? new Date(Number(status.timestamp) * 1000) : new Date();
+    const error = status.errors?.[0];
+
+    const timestamps = {
+      SENT: { sentAt: at },
+      DELIVERED: { deliveredAt: at },
+      READ: { readAt: at },
+      FAILED: {
+        failedAt: at,
+        errorCode: error?.code,
+        errorTitle: error?.title,
+      },
+    }[next];
+
+    const { count } = await prisma.outboundMessage.updateMany({
+      where: {
+        waMessageId: status.id,
+        status: {
+          in: EARLIER_STATUSES[next],
+        },
+      },
+      data: {
+        status: next,
+        ...timestamps,
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    incrementCounter('whatsapp_outbound_status', { status: next.toLowerCase() });
+
+    if (next === 'FAILED') {
+      logger.warn(
+        `WhatsApp message ${status.id} to ${status.recipient_id} failed: ` +
+        `${error ? `${error.code} ${error.title}` : 'no error details'}`
+      );
+    }
+
+    return await prisma.outboundMessage.findUnique({
+      where: { waMessageId: status.id },
+    });
+  }
+}
+
+// Export singleton instance
+export default new OutboundMessageService();
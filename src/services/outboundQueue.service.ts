@@ -0,0 +1,223 @@
+import axios from 'axios';
+import dotenv from 'dotenv';
+import { DeadLetterStatus, OutboundDeadLetter, OutboundMessageType, Prisma } from '@prisma/client';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { AppError } from '../utils/AppError';
+import { incrementCounter } from '../utils/metrics';
+import { TokenBucket } from '../utils/tokenBucket';
+
+dotenv.config();
+
+const SEND_RATE_PER_SECOND = parseInt(process.env.WA_SEND_RATE_PER_SECOND || '50', 10); // Per business number, per instance
+const SEND_MAX_ATTEMPTS = parseInt(process.env.WA_SEND_MAX_ATTEMPTS || '5', 10);
+const SEND_BACKOFF_BASE_MS = parseInt(process.env.WA_SEND_BACKOFF_BASE_MS || '500', 10);
+const SEND_BACKOFF_MAX_MS = 30000;
+
+// Meta error codes that mean "slow down" rather than "this request is wrong"
+// 4 app rate limit, 80007 WABA rate limit, 130429 throughput, 131056 per-recipient pair rate
+const RETRYABLE_META_CODES = [4, 80007, 130429, 131056];
+
+/**
+ * A message request to store if it can't be sent
+ */
+export interface DeadLetterInput {
+  endpoint: string;
+  recipient: string;
+  type: OutboundMessageType;
+  payload: unknown;
+  ticketId?: string;
+  recoverableMetaCodes?: number[]; // Errors the caller recovers from (e.g. by sending a template instead) - not stored
+}
+
+/**
+ * OutboundQueueService paces and retries every Cloud API request
+ * Requests wait for a token from the business number's throughput bucket; rate limit
+ * (429, Meta throttling codes) and server/network errors are retried with exponential
+ * backoff. Messages that still fail are stored as dead letters for replay.
+ */
+class OutboundQueueService {
+  private bucket = new TokenBucket(SEND_RATE_PER_SECOND);
+
+  /**
+   * Whether a failed request is worth retrying
+   */
+  private isRetryable(error: unknown): boolean {
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+
+    if (!error.response) {
+      return true; // Network error or timeout
+    }
+
+    const status = error.response.status;
+    const metaCode = (error.response.data as any)?.error?.code;
+
+    return status === 429 || status >= 500 || RETRYABLE_META_CODES.includes(metaCode);
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After if Meta sent one, otherwise
+   * exponential backoff with jitter
+   */
+  private backoffDelay(error: unknown, attempt: number): number {
+    if (axios.isAxiosError(error)) {
+      const retryAfter = Number(error.response?.headers?.['retry-after']);
+      if (retryAfter > 0) {
+        return Math.min(retryAfter * 1000, SEND_BACKOFF_MAX_MS);
+      }
+    }
+
+    const exponential = Math.min(SEND_BACKOFF_BASE_MS * 2 ** (attempt - 1), SEND_BACKOFF_MAX_MS);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  /**
+   * Whether the caller recovers from this error itself, so the message isn't lost
+   */
+  private isRecoverable(input: DeadLetterInput, error: unknown): boolean {
+    const metaCode = axios.isAxiosError(error) ? (error.response?.data as any)?.error?.code : undefined;
+    return metaCode !== undefined && !!input.recoverableMetaCodes?.includes(metaCode);
+  }
+
+  /**
+   * Stores a message that could not be sent (best effort)
+   */
+  private async storeDeadLetter(input: DeadLetterInput, error: unknown, attempts: number): Promise<void> {
+    const httpStatus = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const metaError = axios.isAxiosError(error) ? (error.response?.data as any)?.error : undefined;
+    const message = metaError?.message || (error instanceof Error ? error.message : 'Unknown error');
+
+    try {
+      const deadLetter = await prisma.outboundDeadLetter.create({
+        data: {
+          endpoint: input.endpoint,
+          recipient: input.recipient,
+          type: input.type,
+          payload: (input.payload ?? {}) as Prisma.InputJsonValue,
+          ticketId: input.ticketId,
+          attempts,
+          httpStatus,
+          error: metaError?.code ? `${metaError.code}: ${message}` : message,
+        },
+      });
+
+      incrementCounter('whatsapp_send_dead_letter', { type: input.type });
+      logger.error(`WhatsApp ${input.type} to ${input.recipient} dead-lettered after ${attempts} attempt(s): ${deadLetter.id}`);
+    } catch (storeError) {
+      logger.error(`Failed to store dead letter for ${input.recipient}:`, storeError);
+    }
+  }
+
+  /**
+   * Runs a Cloud API request within the throughput limit, retrying transient failures
+   * @param task - Performs the request (called once per attempt)
+   * @param deadLetter - Message details to store if every attempt fails
+   * @returns The task's result
+   * @throws The last attempt's error
+   */
+  async run<T>(task: () => Promise<T>, deadLetter?: DeadLetterInput): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      await this.bucket.take();
+
+      try {
+        return await task();
+      } catch (error) {
+        if (this.isRetryable(error) && attempt < SEND_MAX_ATTEMPTS) {
+          const delay = this.backoffDelay(error, attempt);
+          const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+
+          incrementCounter('whatsapp_send_retry', { status: String(status || 'network') });
+          logger.warn(`WhatsApp request failed (${status || 'network'}), retrying in ${delay}ms (attempt ${attempt}/${SEND_MAX_ATTEMPTS})`);
+
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          continue;
+        }
+
+        if (deadLetter && !this.isRecoverable(deadLetter, error)) {
+          await this.storeDeadLetter(deadLetter, error, attempt);
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Requests waiting for throughput (for metrics)
+   */
+  getBacklog(): number {
+    return this.bucket.pending;
+  }
+
+  /**
+   * Lists dead letters (newest first)
+   * @param status - Optional status filter
+   */
+  async listDeadLetters(status?: DeadLetterStatus): Promise<OutboundDeadLetter[]> {
+    return await prisma.outboundDeadLetter.findMany({
+      where: status ? { status } : undefined,
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 200,
+    });
+  }
+
+  /**
+   * Claims a pending dead letter for replay so it can't be sent twice
+   * @throws AppError if the dead letter is missing or already replayed
+   */
+  async claimDeadLetter(id: string): Promise<OutboundDeadLetter> {
+    const claimed = await prisma.outboundDeadLetter.updateMany({
+      where: {
+        id,
+        status: 'PENDING',
+      },
+      data: {
+        status: 'REPLAYED',
+        replayedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      const exists = await prisma.outboundDeadLetter.findUnique({ where: { id } });
+      if (!exists) {
+        throw new AppError(`Dead letter ${id} not found`, 404);
+      }
+      throw new AppError(`Dead letter ${id} was already replayed`, 409);
+    }
+
+    return await prisma.outboundDeadLetter.findUniqueOrThrow({ where: { id } });
+  }
+
+  /**
+   * Records the outcome of a replay
+   * @param id - The claimed dead letter
+   * @param result - The new message ID, or the error that stopped the replay (reopens it)
+   */
+  async completeReplay(
+    id: string,
+    result: { messageId: string } | { error: unknown }
+  ): Promise<OutboundDeadLetter> {
+    if ('messageId' in result) {
+      return await prisma.outboundDeadLetter.update({
+        where: { id },
+        data: { replayMessageId: result.messageId },
+      });
+    }
+
+    return await prisma.outboundDeadLetter.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        replayedAt: null,
+        attempts: { increment: 1 },
+        error: result.error instanceof Error ? result.error.message : 'Unknown error',
+      },
+    });
+  }
+}
+
+// Export singleton instance
+export default new OutboundQueueService();
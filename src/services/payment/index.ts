@@ -3,5 +3,8 @@
  */
 export { intaSendService } from './intasend.service';
 export { pesaPalService } from './pesapal.service';
+export { paymentLogService } from './paymentLog.service';
+export { paymentVerificationService } from './paymentVerification.service';
+export type { ConfirmedPayment, SettlementOutcome, ExceptionResolution } from './paymentVerification.service';
 export * from '../../types/payment';
 
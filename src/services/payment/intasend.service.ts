@@ -1,7 +1,8 @@
 import IntaSend from 'intasend-node';
 import logger from '../../config/logger';
 import { normalizePhoneNumber, validatePhoneNumber } from '../../utils/phoneNormalizer';
-import { PaymentError, IntaSendSTKResponse } from '../../types/payment';
+import { PaymentError, IntaSendSTKResponse, IntaSendPaymentStatus } from '../../types/payment';
+import { paymentLogService } from './paymentLog.service';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -106,6 +107,15 @@ class IntaSendService {
 
       logger.info(`STK Push initiated successfully: invoiceId=${invoiceId}, status=${status}`);
 
+      await paymentLogService.record({
+        provider: 'INTASEND',
+        source: 'REQUEST',
+        reference: String(invoiceId),
+        state: String(status),
+        bookingId: apiRef,
+        rawResponse: response,
+      });
+
       return {
         invoiceId: String(invoiceId),
         status: String(status),
@@ -193,6 +203,69 @@ class IntaSendService {
       );
     }
   }
+
+  /**
+   * Fetches the current state of an M-Pesa collection
+   * @param invoiceId - Invoice ID returned by initiateSTKPush
+   * @returns Payment state and details
+   * @throws PaymentError if the status cannot be fetched
+   */
+  async getPaymentStatus(invoiceId: string): Promise<IntaSendPaymentStatus> {
+    try {
+      // Ensure client is initialized (lazy validation)
+      this.ensureClient();
+
+      const response = await this.client!.collection().status(invoiceId);
+
+      logger.debug('IntaSend payment status response:', JSON.stringify(response, null, 2));
+
+      const invoice = response?.invoice || response;
+
+      if (!invoice?.state) {
+        throw new PaymentError(
+          'IntaSend status response missing state',
+          'INVALID_RESPONSE',
+          'INTASEND',
+          response
+        );
+      }
+
+      const state = String(invoice.state).toUpperCase();
+
+      await paymentLogService.record({
+        provider: 'INTASEND',
+        source: 'STATUS_CHECK',
+        reference: invoiceId,
+        state,
+        bookingId: invoice.api_ref,
+        rawResponse: response,
+      });
+
+      return {
+        invoiceId: String(invoice.invoice_id || invoiceId),
+        state,
+        apiRef: invoice.api_ref || undefined,
+        amount: invoice.value !== undefined ? Number(invoice.value) : undefined,
+        currency: invoice.currency || undefined,
+        account: invoice.account || undefined,
+        failedReason: invoice.failed_reason || undefined,
+      };
+    } catch (error: any) {
+      if (error instanceof PaymentError) {
+        throw error;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.error(`IntaSend status check failed for invoice ${invoiceId}:`, errorMessage);
+
+      throw new PaymentError(
+        `IntaSend status check failed: ${errorMessage}`,
+        'STATUS_CHECK_FAILED',
+        'INTASEND',
+        error
+      );
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,174 @@
+import { randomUUID } from 'crypto';
+import { PaymentLog, PaymentLogSource, PaymentProvider, Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import logger from '../../config/logger';
+
+/**
+ * A provider callback or status lookup to persist
+ */
+export interface PaymentLogInput {
+  provider: PaymentProvider;
+  source: PaymentLogSource;
+  reference: string; // Provider-side ID (invoice ID, order tracking ID)
+  state?: string;
+  bookingId?: string | null;
+  rawResponse: unknown;
+}
+
+/**
+ * PaymentLogService persists every payment provider callback, status lookup and payment request
+ * The unique providerTransactionId doubles as the dedupe key for replayed webhooks;
+ * status lookups are never deduped, so repeated polls all show up in the timeline.
+ * Requests are kept so every reference issued for a booking can be reconciled.
+ */
+class PaymentLogService {
+  /**
+   * Builds the dedupe key for a log entry (unique per entry for status lookups)
+   */
+  private buildKey(input: PaymentLogInput): string {
+    const key = [input.provider, input.source, input.reference, input.state || 'UNKNOWN'];
+
+    if (input.source === 'STATUS_CHECK') {
+      key.push(randomUUID());
+    }
+
+    return key.join(':');
+  }
+
+  /**
+   * Records a callback or status lookup (idempotent for callbacks)
+   * A replay of the same provider webhook returns the existing entry - check processedAt
+   * to see if it was already handled
+   * Never throws: logging must not break payment processing
+   * @returns The stored entry, or null if it could not be written
+   */
+  async record(input: PaymentLogInput): Promise<PaymentLog | null> {
+    const providerTransactionId = this.buildKey(input);
+
+    try {
+      // Provider references don't always point at a booking we know
+      let bookingId: string | null = null;
+      if (input.bookingId) {
+        const booking = await prisma.booking.findUnique({
+          where: { id: input.bookingId },
+          select: { id: true },
+        });
+        bookingId = booking?.id || null;
+      }
+
+      return await prisma.paymentLog.create({
+        data: {
+          providerTransactionId,
+          provider: input.provider,
+          source: input.source,
+          reference: input.reference,
+          state: input.state,
+          bookingId,
+          rawResponse: (input.rawResponse ?? {}) as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        logger.debug(`Payment log already recorded: ${providerTransactionId}`);
+        return await prisma.paymentLog.findUnique({
+          where: { providerTransactionId },
+        }).catch(() => null);
+      }
+
+      logger.error(`Failed to record payment log ${providerTransactionId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Marks a webhook entry as fully handled so replays are skipped
+   * @param entry - Entry returned by record()
+   */
+  async markProcessed(entry: PaymentLog | null): Promise<void> {
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await prisma.paymentLog.update({
+        where: { id: entry.id },
+        data: { processedAt: new Date() },
+      });
+    } catch (error) {
+      logger.error(`Failed to mark payment log ${entry.id} processed:`, error);
+    }
+  }
+
+  /**
+   * Every payment request issued for a booking with a provider (oldest first)
+   * @param bookingId - The booking ID
+   * @param provider - The payment provider
+   * @returns The provider references (invoice IDs, order tracking IDs)
+   */
+  async issuedReferences(bookingId: string, provider: PaymentProvider): Promise<string[]> {
+    const requests = await prisma.paymentLog.findMany({
+      where: {
+        bookingId,
+        provider,
+        source: 'REQUEST',
+      },
+      select: { reference: true },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    return requests.flatMap((request) => (request.reference ? [request.reference] : []));
+  }
+
+  /**
+   * Payment timeline for a booking (oldest first), for support staff
+   * @param bookingId - The booking ID
+   * @returns The booking summary and its payment log entries, or null if not found
+   */
+  async getTimeline(bookingId: string) {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        id: true,
+        status: true,
+        paymentMethod: true,
+        totalAmount: true,
+        paymentReference: true,
+        orderTrackingId: true,
+        cancelReason: true,
+        expiryTime: true,
+        createdAt: true,
+        updatedAt: true,
+        refundRequest: true,
+        paymentLogs: {
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!booking) {
+      return null;
+    }
+
+    const { paymentLogs, ...summary } = booking;
+
+    return {
+      booking: summary,
+      events: paymentLogs.map((log) => ({
+        at: log.createdAt,
+        provider: log.provider,
+        source: log.source,
+        state: log.state,
+        reference: log.providerTransactionId,
+        processedAt: log.processedAt,
+        raw: log.rawResponse,
+      })),
+    };
+  }
+}
+
+// Export singleton instance
+export const paymentLogService = new PaymentLogService();
@@ -0,0 +1,385 @@
+import { PaymentException, PaymentExceptionStatus, PaymentExceptionType, PaymentProvider, Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import logger from '../../config/logger';
+import { AppError } from '../../utils/AppError';
+import { incrementCounter } from '../../utils/metrics';
+import ticketService from '../ticket.service';
+import whatsappService from '../whatsapp.service';
+
+const BOOKING_CURRENCY = 'KES';
+
+/**
+ * A provider-confirmed payment to settle against its booking
+ */
+export interface ConfirmedPayment {
+  bookingId: string;
+  provider: PaymentProvider;
+  paymentReference: string;
+  amount?: number; // Provider-reported amount
+  currency?: string; // Provider-reported currency (defaults to KES)
+  paymentPhone?: string;
+}
+
+/**
+ * How a confirmed payment was settled
+ * COMPLETED and OVERPAID issue tickets; UNDERPAID and CURRENCY_MISMATCH wait for support;
+ * DUPLICATE_PAYMENT (the booking was already paid under another reference) is refunded
+ */
+export type SettlementOutcome = 'COMPLETED' | 'OVERPAID' | 'UNDERPAID' | 'CURRENCY_MISMATCH' | 'DUPLICATE_PAYMENT';
+
+/**
+ * Support actions for a payment exception
+ */
+export type ExceptionResolution = 'ISSUE_TICKETS' | 'REFUND' | 'DISMISS';
+
+/**
+ * PaymentVerificationService sits in front of TicketService.completeBooking
+ * Tickets are only issued when the provider-reported amount and currency cover the
+ * booking; anything else lands in the payment exceptions queue for support.
+ */
+class PaymentVerificationService {
+  /**
+   * Queues a payment exception (idempotent per provider payment)
+   * @returns The exception and whether it was newly created
+   */
+  private async recordException(
+    payment: ConfirmedPayment,
+    type: PaymentExceptionType,
+    expectedAmount: Prisma.Decimal,
+    paidAmount: Prisma.Decimal,
+    currency: string
+  ): Promise<{ exception: PaymentException; created: boolean }> {
+    try {
+      const exception = await prisma.paymentException.create({
+        data: {
+          type,
+          provider: payment.provider,
+          paymentReference: payment.paymentReference,
+          expectedAmount,
+          paidAmount,
+          currency,
+          bookingId: payment.bookingId,
+        },
+      });
+
+      incrementCounter('payment_exceptions', { type });
+      logger.warn(
+        `Payment exception ${type}: booking=${payment.bookingId}, paid=${paidAmount} ${currency}, expected=${expectedAmount} ${BOOKING_CURRENCY}`
+      );
+
+      return { exception, created: true };
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const exception = await prisma.paymentException.findUniqueOrThrow({
+          where: {
+            provider_paymentReference: {
+              provider: payment.provider,
+              paymentReference: payment.paymentReference,
+            },
+          },
+        });
+        return { exception, created: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Queues a refund request (ignored if the booking already has one)
+   */
+  private async queueRefund(
+    bookingId: string,
+    amount: Prisma.Decimal,
+    paymentReference: string,
+    reason: string
+  ): Promise<void> {
+    try {
+      const booking = await prisma.booking.findUniqueOrThrow({
+        where: { id: bookingId },
+        select: { paymentMethod: true },
+      });
+
+      await prisma.refundRequest.create({
+        data: {
+          bookingId,
+          amount,
+          paymentMethod: booking.paymentMethod,
+          paymentReference,
+          reason,
+        },
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        logger.info(`Refund already queued for booking ${bookingId}`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Messages the booking owner (best effort)
+   */
+  private async notifyUser(bookingId: string, message: string): Promise<void> {
+    try {
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: { user: true },
+      });
+
+      if (booking) {
+        await whatsappService.sendBookingUpdate(booking.user.phoneNumber, message);
+      }
+    } catch (error) {
+      logger.error(`Failed to notify user about payment on booking ${bookingId}:`, error);
+    }
+  }
+
+  /**
+   * Queues a second full payment for an already paid booking as an exception and refunds it
+   */
+  private async settleDuplicate(
+    payment: ConfirmedPayment,
+    expectedAmount: Prisma.Decimal,
+    paid: Prisma.Decimal,
+    currency: string
+  ): Promise<SettlementOutcome> {
+    const { created } = await this.recordException(payment, 'DUPLICATE_PAYMENT', expectedAmount, paid, currency);
+
+    if (created) {
+      await this.queueRefund(payment.bookingId, paid, payment.paymentReference, `Duplicate payment of ${currency} ${paid}`);
+      await this.notifyUser(
+        payment.bookingId,
+        `We received a second payment of ${currency} ${paid} for a booking you had already paid. ` +
+        `It will be refunded - your tickets are unchanged. Reference: ${payment.paymentReference}`
+      );
+    }
+
+    return 'DUPLICATE_PAYMENT';
+  }
+
+  /**
+   * Verifies a confirmed payment against its booking and settles it
+   * @param payment - Provider-confirmed payment details
+   * @returns How the payment was settled
+   * @throws AppError if the booking is missing or the provider did not report an amount
+   */
+  async settle(payment: ConfirmedPayment): Promise<SettlementOutcome> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: payment.bookingId },
+      select: { id: true, totalAmount: true, status: true, paymentReference: true },
+    });
+
+    if (!booking) {
+      throw new AppError(`Booking ${payment.bookingId} not found`, 404);
+    }
+
+    if (payment.amount === undefined || isNaN(payment.amount)) {
+      throw new AppError(
+        `Provider did not report an amount for payment ${payment.paymentReference}`,
+        422
+      );
+    }
+
+    const paid = new Prisma.Decimal(payment.amount);
+    const currency = (payment.currency || BOOKING_CURRENCY).toUpperCase();
+
+    // Replays of the paying reference are fine; any other payment is a second charge
+    if (booking.status === 'PAID' && booking.paymentReference !== payment.paymentReference) {
+      return await this.settleDuplicate(payment, booking.totalAmount, paid, currency);
+    }
+
+    if (currency !== BOOKING_CURRENCY) {
+      const { created } = await this.recordException(
+        payment, 'CURRENCY_MISMATCH', booking.totalAmount, paid, currency
+      );
+      if (created) {
+        await this.notifyUser(
+          booking.id,
+          `We received your payment of ${currency} ${paid}, but this booking is priced in ${BOOKING_CURRENCY}. ` +
+          `Our support team will contact you shortly. Reference: ${payment.paymentReference}`
+        );
+      }
+      return 'CURRENCY_MISMATCH';
+    }
+
+    if (paid.lessThan(booking.totalAmount)) {
+      await ticketService.markPartiallyPaid(booking.id, payment.paymentReference);
+
+      const { created } = await this.recordException(
+        payment, 'UNDERPAYMENT', booking.totalAmount, paid, currency
+      );
+      if (created) {
+        await this.notifyUser(
+          booking.id,
+          `⚠️ We received KES ${paid} but your booking costs KES ${booking.totalAmount}, so we can't issue your tickets yet.\n\n` +
+          `Our support team will contact you to complete or refund the payment. Reference: ${payment.paymentReference}`
+        );
+      }
+      return 'UNDERPAID';
+    }
+
+    await ticketService.completeBooking(booking.id, payment.paymentReference, payment.paymentPhone);
+
+    // Another payment may have completed the booking first (completeBooking then just
+    // returns its tickets)
+    const completed = await prisma.booking.findUniqueOrThrow({
+      where: { id: booking.id },
+      select: { status: true, paymentReference: true },
+    });
+    if (completed.status === 'PAID' && completed.paymentReference !== payment.paymentReference) {
+      return await this.settleDuplicate(payment, booking.totalAmount, paid, currency);
+    }
+
+    if (paid.greaterThan(booking.totalAmount)) {
+      const excess = paid.minus(booking.totalAmount);
+      const { created } = await this.recordException(
+        payment, 'OVERPAYMENT', booking.totalAmount, paid, currency
+      );
+      if (created) {
+        await this.queueRefund(booking.id, excess, payment.paymentReference, `Overpayment of KES ${excess}`);
+        await this.notifyUser(
+          booking.id,
+          `You paid KES ${paid} for a KES ${booking.totalAmount} booking. ` +
+          `The extra KES ${excess} will be refunded. Reference: ${payment.paymentReference}`
+        );
+      }
+      return 'OVERPAID';
+    }
+
+    return 'COMPLETED';
+  }
+
+  /**
+   * Lists payment exceptions (newest first)
+   * @param status - Optional status filter
+   */
+  async listExceptions(status?: PaymentExceptionStatus) {
+    return await prisma.paymentException.findMany({
+      where: status ? { status } : undefined,
+      include: {
+        booking: {
+          select: {
+            id: true,
+            status: true,
+            totalAmount: true,
+            paymentMethod: true,
+            user: {
+              select: {
+                phoneNumber: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 200,
+    });
+  }
+
+  /**
+   * Resolves a payment exception
+   * ISSUE_TICKETS completes the booking as paid, REFUND cancels it (if unpaid) and queues
+   * a refund of what was paid, DISMISS only closes the exception
+   * @param exceptionId - The exception ID
+   * @param resolution - Support action
+   * @param notes - Optional support notes
+   * @throws AppError if the exception is missing, already resolved or the action does not apply
+   */
+  async resolveException(
+    exceptionId: string,
+    resolution: ExceptionResolution,
+    notes?: string
+  ): Promise<PaymentException> {
+    const exception = await prisma.paymentException.findUnique({
+      where: { id: exceptionId },
+    });
+
+    if (!exception) {
+      throw new AppError(`Payment exception ${exceptionId} not found`, 404);
+    }
+
+    if (resolution === 'ISSUE_TICKETS' && (exception.type === 'OVERPAYMENT' || exception.type === 'DUPLICATE_PAYMENT')) {
+      throw new AppError(`Tickets were already issued for ${exception.type === 'OVERPAYMENT' ? 'an overpayment' : 'a duplicate payment'}`, 400);
+    }
+
+    // Claim the exception first so two support agents can't both act on it
+    const claimed = await prisma.paymentException.updateMany({
+      where: {
+        id: exceptionId,
+        status: 'OPEN',
+      },
+      data: {
+        status: 'RESOLVED',
+        resolution,
+        notes,
+        resolvedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError(`Payment exception ${exceptionId} is already resolved`, 409);
+    }
+
+    try {
+      if (resolution === 'ISSUE_TICKETS') {
+        await ticketService.completeBooking(exception.bookingId, exception.paymentReference);
+        await ticketService.sendPaymentConfirmation(exception.bookingId);
+      } else if (resolution === 'REFUND') {
+        if (exception.type === 'OVERPAYMENT') {
+          // Only the excess is refunded - queued when the exception was raised
+          await this.queueRefund(
+            exception.bookingId,
+            exception.paidAmount.minus(exception.expectedAmount),
+            exception.paymentReference,
+            `Overpayment of KES ${exception.paidAmount.minus(exception.expectedAmount)}`
+          );
+        } else if (exception.type === 'DUPLICATE_PAYMENT') {
+          // The booking stays paid - only the second payment is refunded (queued when raised)
+          await this.queueRefund(
+            exception.bookingId,
+            exception.paidAmount,
+            exception.paymentReference,
+            `Duplicate payment of ${exception.currency} ${exception.paidAmount}`
+          );
+        } else {
+          await ticketService.releaseUnpaidBooking(exception.bookingId, 'CANCELLED', exception.type);
+          await this.queueRefund(
+            exception.bookingId,
+            exception.paidAmount,
+            exception.paymentReference,
+            `Refund after ${exception.type.toLowerCase().replace('_', ' ')}`
+          );
+          await this.notifyUser(
+            exception.bookingId,
+            `Your payment of ${exception.currency} ${exception.paidAmount} will be refunded and the booking has been cancelled. ` +
+            `Reference: ${exception.paymentReference}`
+          );
+        }
+      }
+    } catch (error) {
+      // Reopen so support can retry
+      await prisma.paymentException.update({
+        where: { id: exceptionId },
+        data: {
+          status: 'OPEN',
+          resolution: null,
+          resolvedAt: null,
+        },
+      });
+      throw error;
+    }
+
+    logger.info(`Payment exception ${exceptionId} resolved: ${resolution}`);
+
+    return await prisma.paymentException.findUniqueOrThrow({
+      where: { id: exceptionId },
+    });
+  }
+}
+
+// Export singleton instance
+export const paymentVerificationService = new PaymentVerificationService();
@@ -7,8 +7,11 @@ import {
   PesaPalIPNResponse,
   PesaPalOrderRequest,
   PesaPalOrderResponse,
+  PesaPalPaymentLink,
+  PesaPalTransactionStatus,
   BookingPaymentDTO,
 } from '../../types/payment';
+import { paymentLogService } from './paymentLog.service';
 
 dotenv.config();
 
@@ -396,10 +399,10 @@ class PesaPalService {
    * Generates a PesaPal payment link for card payments
    * @param booking - Booking DTO with payment details
    * @param retryOnAuthFailure - Internal flag for retry logic (default: true)
-   * @returns Redirect URL for payment
+   * @returns Redirect URL for payment and the order tracking ID to store on the booking
    * @throws PaymentError if payment link generation fails
    */
-  async getPaymentLink(booking: BookingPaymentDTO, retryOnAuthFailure: boolean = true): Promise<string> {
+  async getPaymentLink(booking: BookingPaymentDTO, retryOnAuthFailure: boolean = true): Promise<PesaPalPaymentLink> {
     try {
       // Validate configuration
       this.validateConfig();
@@ -443,19 +446,30 @@ class PesaPalService {
       // Log raw response for debugging
       logger.debug('PesaPal order response:', JSON.stringify(response.data, null, 2));
 
-      if (!response.data.redirect_url) {
+      if (!response.data.redirect_url || !response.data.order_tracking_id) {
         throw new PaymentError(
-          'PesaPal order submission failed: No redirect URL in response',
+          'PesaPal order submission failed: No redirect URL or order tracking ID in response',
           'ORDER_SUBMISSION_FAILED',
           'PESAPAL',
           response.data
         );
       }
 
-      logger.info(`PesaPal payment link generated: ${response.data.redirect_url}`);
+      logger.info(`PesaPal payment link generated: ${response.data.redirect_url} (orderTrackingId=${response.data.order_tracking_id})`);
 
-      // Step 5: Return redirect URL
-      return response.data.redirect_url;
+      await paymentLogService.record({
+        provider: 'PESAPAL',
+        source: 'REQUEST',
+        reference: response.data.order_tracking_id,
+        bookingId: booking.id,
+        rawResponse: response.data,
+      });
+
+      // Step 5: Return redirect URL and tracking ID
+      return {
+        redirectUrl: response.data.redirect_url,
+        orderTrackingId: response.data.order_tracking_id,
+      };
     } catch (error) {
       // Handle 401 Unauthorized errors by clearing token and retrying once
       if (axios.isAxiosError(error) && error.response?.status === 401 && retryOnAuthFailure) {
@@ -502,7 +516,7 @@ class PesaPalService {
    * @returns Transaction status response
    * @throws PaymentError if the operation fails
    */
-  async getTransactionStatus(orderTrackingId: string, retryOnAuthFailure: boolean = true): Promise<any> {
+  async getTransactionStatus(orderTrackingId: string, retryOnAuthFailure: boolean = true): Promise<PesaPalTransactionStatus> {
     try {
       // Validate configuration
       this.validateConfig();
@@ -513,7 +527,7 @@ class PesaPalService {
       logger.info(`Getting PesaPal transaction status: orderTrackingId=${orderTrackingId}`);
 
       // GET transaction status
-      const response = await this.axiosInstance.get(
+      const response = await this.axiosInstance.get<PesaPalTransactionStatus>(
         `/Transactions/GetTransactionStatus?orderTrackingId=${orderTrackingId}`,
         {
           headers: {
@@ -525,6 +539,15 @@ class PesaPalService {
       // Log raw response for debugging
       logger.debug('PesaPal transaction status response:', JSON.stringify(response.data, null, 2));
 
+      await paymentLogService.record({
+        provider: 'PESAPAL',
+        source: 'STATUS_CHECK',
+        reference: orderTrackingId,
+        state: response.data.payment_status_description || String(response.data.status_code ?? ''),
+        bookingId: response.data.merchant_reference || response.data.order_merchant_reference,
+        rawResponse: response.data,
+      });
+
       return response.data;
     } catch (error) {
       // Handle 401 Unauthorized errors by clearing token and retrying once
@@ -0,0 +1,327 @@
+import { BookingStatus, DiscountType, Prisma, PromoCode } from '@prisma/client';
+import prisma from '../config/prisma';
+import logger from '../config/logger';
+import { AppError } from '../utils/AppError';
+
+// Bookings that hold or have used a promo code
+const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['PENDING', 'AWAITING_PAYMENT', 'PARTIAL', 'PAID'];
+
+/**
+ * A cart line to price against a promo code
+ */
+export interface PromoLine {
+  tierId: string;
+  quantity: number;
+  unitPrice: Prisma.Decimal;
+}
+
+/**
+ * The discount a promo code gives a cart
+ */
+export interface PromoQuote {
+  promoCodeId: string;
+  code: string;
+  discount: Prisma.Decimal;
+  total: Prisma.Decimal; // Cart total after the discount
+}
+
+/**
+ * A new promo code (admin)
+ */
+export interface PromoCodeInput {
+  code: string;
+  discountType: DiscountType;
+  discountValue: number;
+  maxUses?: number;
+  maxUsesPerUser?: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  tierIds?: string[];
+}
+
+/**
+ * Promo codes and their usage caps
+ *
+ * A booking made with a code holds one use in timesUsed. Like an inventory hold, the use
+ * is taken when the booking is created and given back when the unpaid booking is released
+ * or the paid one is cancelled, always in the same transaction as the booking status change.
+ */
+class PromoService {
+  /**
+   * Normalizes a code as typed (case and spaces don't matter)
+   */
+  normalizeCode(raw: string): string {
+    return raw.replace(/\s+/g, '').toUpperCase();
+  }
+
+  /**
+   * Prices a cart with a promo code
+   * Only lines for the code's tiers are discounted (every line if the code has no tiers)
+   * @param rawCode - The code as typed
+   * @param userId - The buyer (for the per-user cap)
+   * @param lines - The cart at its current prices
+   * @param client - Transaction client when re-checking the code as the booking is created
+   * @returns The discount and the discounted total
+   * @throws AppError with a message for the user if the code can't be used on this cart
+   */
+  async quote(
+    rawCode: string,
+    userId: string,
+    lines: PromoLine[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PromoQuote> {
+    const code = this.normalizeCode(rawCode);
+
+    const promo = await client.promoCode.findUnique({
+      where: { code },
+      include: {
+        tiers: {
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!promo || !promo.isActive) {
+      throw new AppError(`Sorry, ${code} isn't a valid promo code.`, 404);
+    }
+
+    const now = new Date();
+    if (promo.validFrom && now < promo.validFrom) {
+      throw new AppError(`Sorry, ${code} can't be used yet.`, 422);
+    }
+    if (promo.validUntil && now > promo.validUntil) {
+      throw new AppError(`Sorry, ${code} has expired.`, 410);
+    }
+
+    if (promo.maxUses !== null && promo.timesUsed >= promo.maxUses) {
+      throw new AppError(`Sorry, ${code} has been fully redeemed.`, 409);
+    }
+
+    if (promo.maxUsesPerUser !== null) {
+      const usedByUser = await client.promoRedemption.count({
+        where: {
+          promoCodeId: promo.id,
+          userId,
+          booking: {
+            status: {
+              in: ACTIVE_BOOKING_STATUSES,
+            },
+          },
+        },
+      });
+
+      if (usedByUser >= promo.maxUsesPerUser) {
+        throw new AppError(`You've already used ${code}.`, 409);
+      }
+    }
+
+    const tierIds = promo.tiers.map((tier) => tier.id);
+    const eligible = lines
+      .filter((line) => tierIds.length === 0 || tierIds.includes(line.tierId))
+      .reduce((sum, line) => sum.add(Prisma.Decimal.mul(line.unitPrice, line.quantity)), new Prisma.Decimal(0));
+
+    if (eligible.isZero()) {
+      throw new AppError(`Sorry, ${code} doesn't apply to the tickets in your cart.`, 422);
+    }
+
+    const discount = promo.discountType === 'PERCENTAGE'
+      ? eligible.mul(promo.discountValue).div(100).toDecimalPlaces(2)
+      : Prisma.Decimal.min(promo.discountValue, eligible);
+
+    const subtotal = lines.reduce(
+      (sum, line) => sum.add(Prisma.Decimal.mul(line.unitPrice, line.quantity)),
+      new Prisma.Decimal(0)
+    );
+    const total = subtotal.sub(discount);
+
+    // M-Pesa and PesaPal can't collect a zero amount
+    if (total.lessThanOrEqualTo(0)) {
+      throw new AppError(`Sorry, ${code} can't be used for free tickets here. Please contact the organizer.`, 422);
+    }
+
+    return {
+      promoCodeId: promo.id,
+      code,
+      discount,
+      total,
+    };
+  }
+
+  /**
+   * Atomically takes one use of a promo code
+   * @param tx - Transaction client
+   * @param promoCodeId - The promo code ID
+   * @returns true if the use was taken, false if the code is used up or was deactivated
+   */
+  async claim(tx: Prisma.TransactionClient, promoCodeId: string): Promise<boolean> {
+    const updated = await tx.$executeRaw`
+      UPDATE promo_codes
+      SET "timesUsed" = "timesUsed" + 1, "updatedAt" = NOW()
+      WHERE id = ${promoCodeId} AND "isActive" = true AND ("maxUses" IS NULL OR "timesUsed" < "maxUses")
+    `;
+
+    if (updated === 0) {
+      logger.info(`Promo code claim refused: promoCode=${promoCodeId}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Gives back the use held by a booking (booking released or cancelled)
+   * @param tx - Transaction client
+   * @param bookingId - The booking ID
+   */
+  async release(tx: Prisma.TransactionClient, bookingId: string): Promise<void> {
+    const redemption = await tx.promoRedemption.findUnique({
+      where: { bookingId },
+    });
+
+    if (!redemption) {
+      return;
+    }
+
+    await tx.$executeRaw`
+      UPDATE promo_codes
+      SET "timesUsed" = GREATEST("timesUsed" - 1, 0), "updatedAt" = NOW()
+      WHERE id = ${redemption.promoCodeId}
+    `;
+
+    logger.debug(`Promo code use released: promoCode=${redemption.promoCodeId}, booking=${bookingId}`);
+  }
+
+  /**
+   * Takes the use back for a released booking whose payment arrived late
+   * The buyer already paid the discounted price, so the cap is not checked
+   * @param tx - Transaction client
+   * @param bookingId - The booking ID
+   */
+  async restore(tx: Prisma.TransactionClient, bookingId: string): Promise<void> {
+    const redemption = await tx.promoRedemption.findUnique({
+      where: { bookingId },
+    });
+
+    if (!redemption) {
+      return;
+    }
+
+    await tx.promoCode.update({
+      where: { id: redemption.promoCodeId },
+      data: {
+        timesUsed: {
+          increment: 1,
+        },
+      },
+    });
+  }
+
+  /**
+   * Creates a promo code
+   * @param input - The code and its rules
+   * @throws AppError if the rules are invalid or the code already exists
+   */
+  async createPromoCode(input: PromoCodeInput): Promise<PromoCode> {
+    const code = this.normalizeCode(input.code || '');
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      throw new AppError('code must be 3-32 letters, digits, - or _', 400);
+    }
+
+    if (!Number.isFinite(input.discountValue) || input.discountValue <= 0) {
+      throw new AppError('discountValue must be a positive number', 400);
+    }
+
+    if (input.discountType === 'PERCENTAGE' && input.discountValue >= 100) {
+      throw new AppError('PERCENTAGE discounts must be below 100', 400);
+    }
+
+    for (const [field, value] of [['maxUses', input.maxUses], ['maxUsesPerUser', input.maxUsesPerUser]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+        throw new AppError(`${field} must be a positive whole number`, 400);
+      }
+    }
+
+    if (input.validFrom && input.validUntil && input.validFrom >= input.validUntil) {
+      throw new AppError('validFrom must be before validUntil', 400);
+    }
+
+    const tierIds = input.tierIds || [];
+    if (tierIds.length > 0) {
+      const found = await prisma.ticketTier.count({
+        where: {
+          id: {
+            in: tierIds,
+          },
+        },
+      });
+
+      if (found !== new Set(tierIds).size) {
+        throw new AppError('tierIds contains an unknown ticket tier', 400);
+      }
+    }
+
+    try {
+      const promo = await prisma.promoCode.create({
+        data: {
+          code,
+          discountType: input.discountType,
+          discountValue: new Prisma.Decimal(input.discountValue),
+          maxUses: input.maxUses,
+          maxUsesPerUser: input.maxUsesPerUser,
+          validFrom: input.validFrom,
+          validUntil: input.validUntil,
+          tiers: {
+            connect: tierIds.map((id) => ({ id })),
+          },
+        },
+      });
+
+      logger.info(`Promo code created: ${promo.code} (${promo.discountType} ${promo.discountValue})`);
+      return promo;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new AppError(`Promo code ${code} already exists`, 409);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists promo codes with their tiers (newest first)
+   */
+  async listPromoCodes() {
+    return await prisma.promoCode.findMany({
+      include: {
+        tiers: {
+          select: { id: true, name: true, eventId: true },
+        },
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 200,
+    });
+  }
+
+  /**
+   * Stops a promo code from being applied to new bookings
+   * Bookings already made with it keep their discount
+   * @throws AppError if the promo code is missing
+   */
+  async deactivatePromoCode(id: string): Promise<PromoCode> {
+    const updated = await prisma.promoCode.updateMany({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    if (updated.count === 0) {
+      throw new AppError(`Promo code ${id} not found`, 404);
+    }
+
+    return await prisma.promoCode.findUniqueOrThrow({ where: { id } });
+  }
+}
+
+// Export singleton instance
+export default new PromoService();
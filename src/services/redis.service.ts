@@ -1,12 +1,39 @@
 import redisClient from '../config/redis';
 import logger from '../config/logger';
-import { BotState, Session, SessionData } from '../types/session';
+import { BotState, Session, SessionData, SessionVersion } from '../types/session';
 import { normalizePhoneNumber } from '../utils/phoneNormalizer';
+import { incrementCounter } from '../utils/metrics';
 
 const SESSION_TTL = parseInt(process.env.SESSION_TTL || '600', 10); // Default 10 minutes
 const SESSION_KEY_PREFIX = 'session:';
 const LOCK_KEY_PREFIX = 'lock:';
 
+/**
+ * Compare-and-set for session transitions
+ * KEYS[1] = session key
+ * ARGV[1] = expected state, ARGV[2] = expected version (-1 = key must not exist),
+ * ARGV[3] = new session JSON, ARGV[4] = TTL seconds
+ * Returns 1 if written, 0 if the session moved underneath
+ */
+const TRANSITION_SCRIPT = `
+local current = redis.call("get", KEYS[1])
+if not current then
+  if ARGV[2] ~= "-1" then
+    return 0
+  end
+else
+  local ok, session = pcall(cjson.decode, current)
+  if not ok or type(session) ~= "table" then
+    return 0
+  end
+  local version = tonumber(session.version) or 0
+  if session.state ~= ARGV[1] or tostring(version) ~= ARGV[2] then
+    return 0
+  end
+end
+redis.call("setex", KEYS[1], ARGV[4], ARGV[3])
+return 1`;
+
 /**
  * In-memory session fallback when Redis is unavailable
  * Maps normalized phone number -> Session
@@ -45,6 +72,29 @@ class RedisService {
       }
     }
   }
+  /**
+   * Fresh IDLE session
+   */
+  private defaultSession(): Session {
+    return {
+      state: BotState.IDLE,
+      data: {},
+      version: 0,
+    };
+  }
+
+  /**
+   * Parses a stored session (sessions written before versioning count as version 0)
+   */
+  private parseSession(sessionJson: string): Session {
+    const session = JSON.parse(sessionJson);
+    return {
+      state: session.state,
+      data: session.data || {},
+      version: typeof session.version === 'number' ? session.version : 0,
+    };
+  }
+
   /**
    * Gets the session for a phone number
    * @param phoneNumber - Phone number (will be normalized)
@@ -60,8 +110,7 @@ class RedisService {
       const sessionJson = await redisClient.get(key);
       
       if (sessionJson) {
-        const session: Session = JSON.parse(sessionJson);
-        return session;
+        return this.parseSession(sessionJson);
       }
       
       // Not in Redis, check in-memory fallback
@@ -72,10 +121,7 @@ class RedisService {
       }
       
       // No session found, return default
-      return {
-        state: BotState.IDLE,
-        data: {},
-      };
+      return this.defaultSession();
     } catch (error) {
       // Redis unavailable - use in-memory fallback
       this.isRedisAvailable = false;
@@ -89,16 +135,14 @@ class RedisService {
       
       // No in-memory session, return default
       logger.warn(`Redis unavailable, returning default session for ${normalized}:`, error instanceof Error ? error.message : 'Unknown error');
-      return {
-        state: BotState.IDLE,
-        data: {},
-      };
+      return this.defaultSession();
     }
   }
 
   /**
    * Updates the session state and/or data
    * Merges new data with existing data
+   * Unconditional write - use transitionSession for conversation state changes
    * @param phoneNumber - Phone number (will be normalized)
    * @param state - New bot state
    * @param data - Partial session data to merge
@@ -125,6 +169,7 @@ class RedisService {
     const updatedSession: Session = {
       state,
       data: updatedData,
+      version: existing.version + 1,
     };
     
     try {
@@ -140,6 +185,115 @@ class RedisService {
     }
   }
 
+  /**
+   * Moves the session from one state to another, atomically
+   * Fails (returns false) if the session is no longer in the expected state or was written
+   * by someone else since it was read, so concurrent handlers can't overwrite each other.
+   * Data is merged like updateSession; moving to IDLE clears it.
+   * @param phoneNumber - Phone number (will be normalized)
+   * @param from - The session the caller read (state and version must both still match),
+   *               or just the state the caller acted on
+   * @param toState - New bot state
+   * @param patch - Partial session data to merge
+   * @returns true if the transition was written
+   * Falls back to in-memory storage if Redis is unavailable
+   */
+  async transitionSession(
+    phoneNumber: string,
+    from: BotState | SessionVersion,
+    toState: BotState,
+    patch?: Partial<SessionData>
+  ): Promise<boolean> {
+    const normalized = normalizePhoneNumber(phoneNumber);
+    const key = `${SESSION_KEY_PREFIX}${normalized}`;
+    const fromState = typeof from === 'string' ? from : from.state;
+    const expectedVersion = typeof from === 'string' ? undefined : from.version;
+
+    // Another write since the caller read the session is a lost update, even in the same state
+    const matches = (current: Session): boolean =>
+      current.state === fromState && (expectedVersion === undefined || current.version === expectedVersion);
+
+    const build = (current: Session): Session => ({
+      state: toState,
+      data: toState === BotState.IDLE ? {} : { ...current.data, ...patch },
+      version: current.version + 1,
+    });
+
+    const conflict = (current: Session): false => {
+      incrementCounter('session_transition_conflict');
+      logger.warn(
+        `Session transition rejected for ${normalized}: expected ${fromState}` +
+        `${expectedVersion === undefined ? '' : ` (v${expectedVersion})`}, ` +
+        `found ${current.state} (v${current.version}), wanted ${toState}`
+      );
+      return false;
+    };
+
+    let sessionJson: string | null;
+    try {
+      sessionJson = await redisClient.get(key);
+    } catch (error) {
+      return this.transitionInMemory(normalized, fromState, matches, build, conflict);
+    }
+
+    // Missing in Redis: fall back to what getSession would have returned
+    this.cleanupInMemorySessions();
+    const current = sessionJson
+      ? this.parseSession(sessionJson)
+      : inMemorySessions.get(normalized)?.session || this.defaultSession();
+
+    if (!matches(current)) {
+      return conflict(current);
+    }
+
+    const next = build(current);
+
+    try {
+      const written = await redisClient.eval(
+        TRANSITION_SCRIPT,
+        1,
+        key,
+        fromState,
+        sessionJson ? String(current.version) : '-1',
+        JSON.stringify(next),
+        SESSION_TTL
+      );
+
+      if (written !== 1) {
+        return conflict(await this.getSession(phoneNumber));
+      }
+
+      logger.debug(`Session transitioned in Redis for ${normalized}: ${fromState} -> ${toState} (v${next.version})`);
+      return true;
+    } catch (error) {
+      return this.transitionInMemory(normalized, fromState, matches, build, conflict);
+    }
+  }
+
+  /**
+   * In-memory transitionSession (single process, so the check and write can't interleave)
+   */
+  private transitionInMemory(
+    normalized: string,
+    fromState: BotState,
+    matches: (current: Session) => boolean,
+    build: (current: Session) => Session,
+    conflict: (current: Session) => false
+  ): boolean {
+    this.isRedisAvailable = false;
+    this.cleanupInMemorySessions();
+
+    const current = inMemorySessions.get(normalized)?.session || this.defaultSession();
+    if (!matches(current)) {
+      return conflict(current);
+    }
+
+    const next = build(current);
+    inMemorySessions.set(normalized, { session: next, expiresAt: Date.now() + (SESSION_TTL * 1000) });
+    logger.debug(`Session transitioned in-memory for ${normalized}: ${fromState} -> ${next.state} (Redis unavailable)`);
+    return true;
+  }
+
   /**
    * Clears the session, resetting to IDLE state
    * @param phoneNumber - Phone number (will be normalized)
@@ -149,9 +303,12 @@ class RedisService {
     const normalized = normalizePhoneNumber(phoneNumber);
     const key = `${SESSION_KEY_PREFIX}${normalized}`;
     
+    // Keep counting versions so a stale transition can't match the cleared session
+    const existing = await this.getSession(phoneNumber);
+
     const clearedSession: Session = {
-      state: BotState.IDLE,
-      data: {},
+      ...this.defaultSession(),
+      version: existing.version + 1,
     };
     
     try {
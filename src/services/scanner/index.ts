@@ -0,0 +1,6 @@
+/**
+ * Scanner services exports
+ */
+export { redemptionService } from './redemption.service';
+export { scannerSyncService } from './sync.service';
+export * from '../../types/scanner';
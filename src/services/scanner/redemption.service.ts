@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import prisma from '../../config/prisma';
+import logger from '../../config/logger';
+import { normalizeTicketCode } from '../../utils/ticketCode';
+import { isTicketToken, TicketTokenError } from '../../utils/ticketToken';
+import ticketSigningService from '../assets/signing.service';
+import { RedemptionError, RedemptionResult, StaffContext } from '../../types/scanner';
+
+// Gates usually open before the advertised start time
+export const DOORS_OPEN_MINUTES = parseInt(process.env.REDEMPTION_DOORS_OPEN_MINUTES || '180', 10);
+
+/**
+ * RedemptionService handles ticket check-in at the venue gate
+ */
+class RedemptionService {
+  /**
+   * Formats a redemption time for gate staff (HH:MM, Nairobi time)
+   */
+  private formatTime(date: Date | null): string {
+    if (!date) {
+      return '--:--';
+    }
+    return date.toLocaleTimeString('en-KE', {
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false,
+      timeZone: 'Africa/Nairobi',
+    });
+  }
+
+  /**
+   * Builds the double-scan error from a ticket's stored redemption details
+   */
+  private alreadyRedeemedError(ticket: {
+    redeemedAt: Date | null;
+    redeemedGate: string | null;
+  }): RedemptionError {
+    return new RedemptionError(
+      `Ticket already redeemed at ${this.formatTime(ticket.redeemedAt)} by gate ${ticket.redeemedGate || 'unknown'}`,
+      'ALREADY_REDEEMED',
+      409,
+      {
+        redeemedAt: ticket.redeemedAt,
+        gate: ticket.redeemedGate,
+      }
+    );
+  }
+
+  /**
+   * Hashes a scanner API token for lookup (tokens are never stored in plain text)
+   * @param token - The raw bearer token
+   * @returns Hex-encoded SHA-256 digest
+   */
+  hashAccessToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Finds active door staff by scanner API token
+   * @param token - The raw bearer token
+   * @returns Staff context, or null if the token is unknown or disabled
+   */
+  async findStaffByToken(token: string): Promise<StaffContext | null> {
+    const staff = await prisma.eventStaff.findUnique({
+      where: { accessTokenHash: this.hashAccessToken(token) },
+    });
+
+    if (!staff || !staff.isActive) {
+      return null;
+    }
+
+    return {
+      id: staff.id,
+      name: staff.name,
+      phoneNumber: staff.phoneNumber,
+      gate: staff.gate,
+      eventId: staff.eventId,
+    };
+  }
+
+  /**
+   * Finds active door staff assignments for a phone number
+   * Only returns assignments for events that have not ended yet
+   * @param phoneNumber - Normalized phone number (254xxxxxxxxx)
+   * @returns Staff contexts, one per event the number is registered for
+   */
+  async findStaffByPhone(phoneNumber: string): Promise<StaffContext[]> {
+    const assignments = await prisma.eventStaff.findMany({
+      where: {
+        phoneNumber,
+        isActive: true,
+        event: {
+          endTime: {
+            gt: new Date(),
+          },
+        },
+      },
+    });
+
+    return assignments.map((staff) => ({
+      id: staff.id,
+      name: staff.name,
+      phoneNumber: staff.phoneNumber,
+      gate: staff.gate,
+      eventId: staff.eventId,
+    }));
+  }
+
+  /**
+   * Parses a scanned value into the ticket it identifies
+   * Signed QR tokens are verified first. Typed codes carry no signature, so they are only
+   * accepted as an explicit manual entry by staff (e.g. a QR code that won't scan).
+   * @param rawCode - Signed QR token, or ticket code as typed (e.g., AE92-8X4B)
+   * @param manualEntry - Staff typed the code in deliberately
+   * @returns The ticket code, plus the ticket ID when it came from a signed token
+   * @throws RedemptionError if the value is not a valid code, the token is forged, or a
+   *         typed code was not a manual entry
+   */
+  parseScan(rawCode: string, manualEntry: boolean = false): { uniqueCode: string; ticketId?: string } {
+    if (isTicketToken(rawCode)) {
+      // Signed QR: authenticity first, then look the ticket up by ID
+      try {
+        const claims = ticketSigningService.verifyToken(rawCode);
+        return { uniqueCode: claims.code, ticketId: claims.tid };
+      } catch (error) {
+        if (error instanceof TicketTokenError) {
+          logger.warn(`Redemption failed: ${error.message}`);
+          throw new RedemptionError('QR code is not a genuine AccessKE ticket', 'INVALID_SIGNATURE', 400);
+        }
+        throw error;
+      }
+    }
+
+    let uniqueCode: string;
+    try {
+      uniqueCode = normalizeTicketCode(rawCode);
+    } catch {
+      throw new RedemptionError(`"${rawCode}" is not a valid ticket code`, 'INVALID_CODE', 400);
+    }
+
+    if (!manualEntry) {
+      throw new RedemptionError(
+        'Typed ticket codes must be submitted as a manual entry - scan the QR code instead',
+        'MANUAL_ENTRY_REQUIRED',
+        400
+      );
+    }
+
+    return { uniqueCode };
+  }
+
+  /**
+   * Redeems a ticket at the gate
+   * Validates the booking is PAID and the event is live, then atomically flips isRedeemed
+   * @param rawCode - Signed QR token, or ticket code as typed (e.g., AE92-8X4B)
+   * @param staff - The door staff performing the scan, or all of their event assignments
+   *                (the assignment matching the ticket's event is used)
+   * @param manualEntry - Staff typed the code in (required for typed codes)
+   * @returns Holder, tier and event details for the gate display
+   * @throws RedemptionError if the ticket cannot be admitted
+   */
+  async redeemTicket(
+    rawCode: string,
+    staff: StaffContext | StaffContext[],
+    manualEntry: boolean = false
+  ): Promise<RedemptionResult> {
+    const { uniqueCode, ticketId: tokenTicketId } = this.parseScan(rawCode, manualEntry);
+
+    const ticket = await prisma.ticket.findUnique({
+      where: tokenTicketId ? { id: tokenTicketId } : { uniqueCode },
+      include: {
+        holder: true,
+        bookingItem: {
+          include: {
+            ticketTier: {
+              include: {
+                event: true,
+              },
+            },
+          },
+        },
+        booking: {
+          include: {
+            user: true,
+          },
+        },
+      },
+    });
+
+    const assignments = Array.isArray(staff) ? staff : [staff];
+
+    if (!ticket) {
+      // A typed code the holder gave away - the ticket now has a new code
+      const transfer = await prisma.ticketTransfer.findFirst({
+        where: { previousCode: uniqueCode },
+      });
+      if (transfer) {
+        logger.warn(`Redemption refused: ticket code ${uniqueCode} was transferred (staff=${assignments[0]?.id})`);
+        throw new RedemptionError('This ticket was transferred to someone else', 'REVOKED', 410);
+      }
+
+      logger.warn(`Redemption failed: ticket ${uniqueCode} not found (staff=${assignments[0]?.id})`);
+      throw new RedemptionError(`Ticket ${uniqueCode} not found`, 'NOT_FOUND', 404);
+    }
+
+    // A genuine token for a ticket whose code was since reissued
+    if (tokenTicketId && ticket.uniqueCode !== uniqueCode) {
+      throw new RedemptionError('This QR code has been replaced by a newer ticket', 'REVOKED', 410);
+    }
+
+    if (!ticket.bookingItem) {
+      throw new RedemptionError(`Ticket ${uniqueCode} has no ticket tier`, 'NOT_FOUND', 404);
+    }
+
+    const { booking } = ticket;
+    const { ticketTier } = ticket.bookingItem;
+    const event = ticketTier.event;
+    const gateStaff = assignments.find((s) => s.eventId === event.id);
+
+    if (booking.status !== 'PAID') {
+      throw new RedemptionError(
+        `Ticket ${uniqueCode} belongs to a ${booking.status} booking`,
+        'NOT_PAID',
+        422
+      );
+    }
+
+    if (!gateStaff) {
+      throw new RedemptionError(
+        `Ticket ${uniqueCode} is for a different event (${event.title})`,
+        'WRONG_EVENT',
+        403
+      );
+    }
+
+    const now = new Date();
+    const doorsOpen = new Date(event.startTime.getTime() - DOORS_OPEN_MINUTES * 60 * 1000);
+    if (now < doorsOpen || now > event.endTime) {
+      throw new RedemptionError(
+        `${event.title} is not open for check-in right now`,
+        'EVENT_NOT_LIVE',
+        422
+      );
+    }
+
+    if (ticket.isRedeemed) {
+      throw this.alreadyRedeemedError(ticket);
+    }
+
+    // Atomic flip: only succeeds if nobody redeemed the ticket since we read it
+    const updateResult = await prisma.ticket.updateMany({
+      where: {
+        id: ticket.id,
+        isRedeemed: false,
+      },
+      data: {
+        isRedeemed: true,
+        redeemedAt: now,
+        redeemedGate: gateStaff.gate,
+        redeemedByStaffId: gateStaff.id,
+      },
+    });
+
+    if (updateResult.count === 0) {
+      // Lost the race against another gate - report who won
+      const current = await prisma.ticket.findUnique({
+        where: { id: ticket.id },
+        select: { redeemedAt: true, redeemedGate: true },
+      });
+      throw this.alreadyRedeemedError(current || { redeemedAt: null, redeemedGate: null });
+    }
+
+    logger.info(
+      `Ticket redeemed: ${uniqueCode} at gate ${gateStaff.gate} by staff ${gateStaff.id}` +
+      `${tokenTicketId ? '' : ' (manual entry)'}`
+    );
+
+    return {
+      ticketId: ticket.id,
+      uniqueCode,
+      redeemedAt: now,
+      gate: gateStaff.gate,
+      holder: {
+        name: (ticket.holder ?? booking.user).name,
+        phoneNumber: (ticket.holder ?? booking.user).phoneNumber,
+      },
+      tier: {
+        id: ticketTier.id,
+        name: ticketTier.name,
+      },
+      event: {
+        id: event.id,
+        title: event.title,
+        venue: event.venue,
+        startTime: event.startTime,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const redemptionService = new RedemptionService();
@@ -0,0 +1,344 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../../config/prisma';
+import logger from '../../config/logger';
+import { AppError } from '../../utils/AppError';
+import ticketSigningService from '../assets/signing.service';
+import { redemptionService, DOORS_OPEN_MINUTES } from './redemption.service';
+import {
+  RedemptionError,
+  StaffContext,
+  ScannerManifest,
+  OfflineScan,
+  OfflineScanResult,
+} from '../../types/scanner';
+
+const MAX_SCANS_PER_UPLOAD = 500;
+
+/**
+ * ScannerSyncService lets gate devices work offline
+ * Devices download a signed manifest of valid tickets, scan against it,
+ * then upload their scans for the server to merge
+ */
+class ScannerSyncService {
+  /**
+   * Builds the signed ticket manifest for the staff member's event
+   * @param staff - The door staff requesting the manifest
+   * @returns The serialized manifest plus its Ed25519 signature
+   * @throws AppError if the event is missing or signing is not configured
+   */
+  async buildManifest(staff: StaffContext): Promise<{
+    manifest: string;
+    keyId: string;
+    signature: string;
+  }> {
+    const event = await prisma.event.findUnique({
+      where: { id: staff.eventId },
+    });
+
+    if (!event) {
+      throw new AppError(`Event ${staff.eventId} not found`, 404);
+    }
+
+    // Only tickets from PAID bookings are admissible
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        booking: {
+          status: 'PAID',
+        },
+        bookingItem: {
+          ticketTier: {
+            eventId: event.id,
+          },
+        },
+      },
+      include: {
+        bookingItem: {
+          select: {
+            ticketTier: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    const manifest: ScannerManifest = {
+      version: 1,
+      eventId: event.id,
+      eventTitle: event.title,
+      generatedAt: new Date().toISOString(),
+      validFrom: new Date(event.startTime.getTime() - DOORS_OPEN_MINUTES * 60 * 1000).toISOString(),
+      validUntil: event.endTime.toISOString(),
+      tickets: tickets.map((ticket) => ({
+        id: ticket.id,
+        code: ticket.uniqueCode,
+        tierId: ticket.bookingItem!.ticketTier.id,
+        tierName: ticket.bookingItem!.ticketTier.name,
+        redeemed: ticket.isRedeemed,
+        redeemedAt: ticket.redeemedAt ? ticket.redeemedAt.toISOString() : null,
+        redeemedGate: ticket.redeemedGate,
+      })),
+    };
+
+    // Sign the exact string we send so devices can verify it byte-for-byte
+    const serialized = JSON.stringify(manifest);
+    const { keyId, signature } = ticketSigningService.signDocument(serialized);
+
+    logger.info(`Scanner manifest built: event=${event.id}, tickets=${tickets.length}, staff=${staff.id}`);
+
+    return { manifest: serialized, keyId, signature };
+  }
+
+  /**
+   * Merges one uploaded offline scan into the server state
+   * The earliest scan stands, whichever device uploads first; later scans of the same
+   * ticket are duplicates (same gate) or conflicts (a different gate)
+   */
+  private async mergeScan(
+    staff: StaffContext,
+    deviceId: string,
+    scan: OfflineScan,
+    scannedAt: Date
+  ): Promise<OfflineScanResult> {
+    let ticketId: string | undefined;
+    let outcome: OfflineScanResult['outcome'];
+    let reason: string | undefined;
+    let existingRedemption: OfflineScanResult['existingRedemption'];
+
+    try {
+      const parsed = redemptionService.parseScan(scan.code, scan.manualEntry === true);
+
+      const ticket = await prisma.ticket.findUnique({
+        where: parsed.ticketId ? { id: parsed.ticketId } : { uniqueCode: parsed.uniqueCode },
+        include: {
+          booking: true,
+          bookingItem: {
+            include: {
+              ticketTier: {
+                include: {
+                  event: true,
+                },
+              },
+            },
+          },
+        },
+      });
+
+      if (!ticket) {
+        throw new RedemptionError(`Ticket ${parsed.uniqueCode} not found`, 'NOT_FOUND', 404);
+      }
+      if (parsed.ticketId && ticket.uniqueCode !== parsed.uniqueCode) {
+        throw new RedemptionError('This QR code has been replaced by a newer ticket', 'REVOKED', 410);
+      }
+      if (ticket.booking.status !== 'PAID') {
+        throw new RedemptionError(`Ticket belongs to a ${ticket.booking.status} booking`, 'NOT_PAID', 422);
+      }
+      if (!ticket.bookingItem || ticket.bookingItem.ticketTier.eventId !== staff.eventId) {
+        throw new RedemptionError('Ticket is for a different event', 'WRONG_EVENT', 403);
+      }
+
+      // Same check-in window as online redemption, against the device's clock
+      const { event } = ticket.bookingItem.ticketTier;
+      const doorsOpen = new Date(event.startTime.getTime() - DOORS_OPEN_MINUTES * 60 * 1000);
+      if (scannedAt < doorsOpen || scannedAt > event.endTime) {
+        throw new RedemptionError(`Scanned outside check-in hours for ${event.title}`, 'EVENT_NOT_LIVE', 422);
+      }
+
+      ticketId = ticket.id;
+
+      // Takes over a redemption recorded later than this scan (another device uploaded first)
+      const updateResult = await prisma.ticket.updateMany({
+        where: {
+          id: ticket.id,
+          OR: [
+            { isRedeemed: false },
+            { redeemedAt: { gt: scannedAt } },
+          ],
+        },
+        data: {
+          isRedeemed: true,
+          redeemedAt: scannedAt,
+          redeemedGate: staff.gate,
+          redeemedByStaffId: staff.id,
+        },
+      });
+
+      if (updateResult.count > 0) {
+        outcome = 'ACCEPTED';
+
+        const superseded = await prisma.ticketScan.updateMany({
+          where: {
+            ticketId: ticket.id,
+            outcome: 'ACCEPTED',
+            scannedAt: {
+              gt: scannedAt,
+            },
+          },
+          data: {
+            outcome: 'CONFLICT',
+            reason: `Superseded by an earlier scan at gate ${staff.gate}`,
+          },
+        });
+        if (superseded.count > 0) {
+          logger.warn(`Scan conflict: ticket=${ticket.id} redeemed earlier at gate ${staff.gate}, device=${deviceId}`);
+        }
+      } else {
+        const current = await prisma.ticket.findUnique({
+          where: { id: ticket.id },
+          select: { redeemedAt: true, redeemedGate: true, redeemedByStaffId: true },
+        });
+
+        existingRedemption = {
+          redeemedAt: current?.redeemedAt || null,
+          gate: current?.redeemedGate || null,
+        };
+
+        if (current?.redeemedByStaffId === staff.id && current?.redeemedGate === staff.gate) {
+          outcome = 'DUPLICATE';
+          reason = 'Already redeemed at this gate';
+        } else {
+          outcome = 'CONFLICT';
+          reason = `Also redeemed by gate ${current?.redeemedGate || 'unknown'}`;
+          logger.warn(`Scan conflict: ticket=${ticket.id}, gate=${staff.gate}, device=${deviceId}, existingGate=${current?.redeemedGate}`);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof RedemptionError)) {
+        throw error;
+      }
+      outcome = 'REJECTED';
+      reason = error.message;
+    }
+
+    try {
+      await prisma.ticketScan.create({
+        data: {
+          deviceId,
+          scanId: scan.scanId,
+          rawCode: scan.code,
+          gate: staff.gate,
+          outcome,
+          reason,
+          scannedAt,
+          ticketId,
+          staffId: staff.id,
+        },
+      });
+    } catch (error) {
+      // Same scan uploaded concurrently - the other request recorded it
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+
+    return {
+      scanId: scan.scanId,
+      outcome,
+      ticketId,
+      reason,
+      existingRedemption,
+    };
+  }
+
+  /**
+   * Merges a batch of offline scans uploaded by a gate device
+   * Idempotent per (deviceId, scanId): re-uploading a batch returns the stored verdicts
+   * @param staff - The door staff who owns the device
+   * @param deviceId - Stable identifier of the gate device
+   * @param scans - Scans recorded while offline (malformed entries are rejected individually)
+   * @returns One verdict per scan, in upload order
+   * @throws AppError if the batch is malformed
+   */
+  async mergeScans(
+    staff: StaffContext,
+    deviceId: string,
+    scans: unknown[]
+  ): Promise<OfflineScanResult[]> {
+    if (!deviceId) {
+      throw new AppError('Missing deviceId', 400);
+    }
+    if (!Array.isArray(scans) || scans.length === 0) {
+      throw new AppError('No scans to upload', 400);
+    }
+    if (scans.length > MAX_SCANS_PER_UPLOAD) {
+      throw new AppError(`At most ${MAX_SCANS_PER_UPLOAD} scans per upload`, 413);
+    }
+
+    // Anything that isn't a well-formed scan is rejected on its own
+    const scanIdOf = (scan: unknown): string => {
+      const scanId = typeof scan === 'object' && scan !== null ? (scan as Partial<OfflineScan>).scanId : undefined;
+      return typeof scanId === 'string' ? scanId : '';
+    };
+    const isScan = (scan: unknown): scan is OfflineScan =>
+      scanIdOf(scan) !== '' &&
+      typeof (scan as OfflineScan).code === 'string' && (scan as OfflineScan).code !== '' &&
+      typeof (scan as OfflineScan).scannedAt === 'string';
+
+    const valid = scans.filter(isScan);
+
+    // Previously uploaded scans return their stored verdict
+    const previous = await prisma.ticketScan.findMany({
+      where: {
+        deviceId,
+        scanId: {
+          in: valid.map((scan) => scan.scanId),
+        },
+      },
+    });
+    const previousByScanId = new Map(previous.map((scan) => [scan.scanId, scan]));
+
+    const results = new Map<string, OfflineScanResult>();
+
+    // Merge in the order the scans happened so the earliest scan wins
+    const ordered = [...valid].sort(
+      (a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime()
+    );
+
+    for (const scan of ordered) {
+      const stored = previousByScanId.get(scan.scanId);
+      if (stored) {
+        results.set(scan.scanId, {
+          scanId: scan.scanId,
+          outcome: stored.outcome,
+          ticketId: stored.ticketId || undefined,
+          reason: stored.reason || undefined,
+        });
+        continue;
+      }
+
+      const scannedAt = new Date(scan.scannedAt);
+      if (isNaN(scannedAt.getTime())) {
+        results.set(scan.scanId, {
+          scanId: scan.scanId,
+          outcome: 'REJECTED',
+          reason: 'Invalid scannedAt timestamp',
+        });
+        continue;
+      }
+
+      results.set(scan.scanId, await this.mergeScan(staff, deviceId, scan, scannedAt));
+    }
+
+    const verdicts = scans.map((scan): OfflineScanResult => (isScan(scan)
+      ? results.get(scan.scanId)!
+      : {
+          scanId: scanIdOf(scan),
+          outcome: 'REJECTED',
+          reason: 'Scan is missing scanId, code or scannedAt',
+        }));
+    const conflicts = verdicts.filter((v) => v.outcome === 'CONFLICT').length;
+
+    logger.info(`Offline scans merged: device=${deviceId}, staff=${staff.id}, scans=${scans.length}, conflicts=${conflicts}`);
+
+    return verdicts;
+  }
+}
+
+// Export singleton instance
+export const scannerSyncService = new ScannerSyncService();
@@ -1,10 +1,108 @@
 import prisma from '../config/prisma';
 import logger from '../config/logger';
 import { AppError } from '../utils/AppError';
-import { Prisma } from '@prisma/client';
+import { Prisma, BookingStatus, OutboundMessage } from '@prisma/client';
 import crypto from 'crypto';
 import qrCodeService from './assets/qr.service';
 import whatsappService from './whatsapp.service';
+import inventoryService from './inventory.service';
+import promoService from './promo.service';
+import redisService from './redis.service';
+import { BotState } from '../types/session';
+import { incrementCounter } from '../utils/metrics';
+import { normalizePhoneNumber, validatePhoneNumber } from '../utils/phoneNormalizer';
+
+// cancelReason recorded when a booking's payment window lapses
+export const EXPIRED_BOOKING_REASON = 'EXPIRED';
+
+// Unpaid bookings that hold inventory and can still be completed
+const UNPAID_STATUSES: BookingStatus[] = ['PENDING', 'AWAITING_PAYMENT', 'PARTIAL'];
+
+// Image resends after WhatsApp reports a ticket image failed, before sending the code as text
+const MAX_TICKET_IMAGE_RETRIES = 2;
+
+// A booking's cart lines with their tier and event
+export const BOOKING_ITEMS_INCLUDE = {
+  items: {
+    include: {
+      ticketTier: {
+        include: {
+          event: true,
+        },
+      },
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  },
+} satisfies Prisma.BookingInclude;
+
+// What it takes to (re)send a ticket: holder's phone and event details for the caption
+const TICKET_DELIVERY_INCLUDE = {
+  holder: true,
+  bookingItem: {
+    include: {
+      ticketTier: {
+        include: {
+          event: true,
+        },
+      },
+    },
+  },
+  booking: {
+    include: {
+      user: true,
+      recipient: true,
+    },
+  },
+} satisfies Prisma.TicketInclude;
+
+type TicketDelivery = {
+  id: string;
+  uniqueCode: string;
+  holder?: { phoneNumber: string } | null; // Set for transferred tickets
+  bookingItem: Prisma.BookingItemGetPayload<typeof TICKET_DELIVERY_INCLUDE.bookingItem>;
+  booking: Prisma.BookingGetPayload<typeof TICKET_DELIVERY_INCLUDE.booking>;
+};
+
+type BookingItemSummary = {
+  quantity: number;
+  ticketTier: {
+    name: string;
+    event: { id: string; title: string };
+  };
+};
+
+/**
+ * Describes a booking's items for messages, e.g. "2 x VIP, 3 x Regular"
+ * Items are labelled with their event when the cart spans events
+ */
+export function describeBookingItems(items: BookingItemSummary[]): string {
+  const multiEvent = new Set(items.map((item) => item.ticketTier.event.id)).size > 1;
+
+  return items
+    .map((item) => `${item.quantity} x ${item.ticketTier.name}${multiEvent ? ` (${item.ticketTier.event.title})` : ''}`)
+    .join(', ');
+}
+
+/**
+ * Titles of the events a booking is for, e.g. "Koroga Festival & Blankets and Wine"
+ */
+export function bookingEventTitles(items: BookingItemSummary[]): string {
+  return [...new Set(items.map((item) => item.ticketTier.event.title))].join(' & ');
+}
+
+/**
+ * Tickets a user holds: transferred to them, or bought by them and not transferred away
+ */
+function heldBy(userId: string): Prisma.TicketWhereInput {
+  return {
+    OR: [
+      { holderId: userId },
+      { holderId: null, booking: { userId } },
+    ],
+  };
+}
 
 /**
  * TicketService handles ticket generation and booking completion
@@ -24,26 +122,146 @@ class TicketService {
   }
 
   /**
-   * Sends visual ticket images (QR codes) to user via WhatsApp
+   * Generates a ticket code that isn't in use yet
+   * @throws AppError if no free code was found after several attempts
+   */
+  private async generateUniqueTicketCode(): Promise<string> {
+    const maxAttempts = 10;
+
+    // Ensure code is unique (retry if collision)
+    for (let attempts = 0; attempts < maxAttempts; attempts++) {
+      const uniqueCode = this.generateTicketCode();
+
+      // Check if code already exists
+      const existing = await prisma.ticket.findUnique({
+        where: { uniqueCode },
+      });
+
+      if (!existing) {
+        return uniqueCode;
+      }
+
+      logger.warn(`Ticket code collision detected: ${uniqueCode}, retrying...`);
+    }
+
+    throw new AppError(
+      `Failed to generate unique ticket code after ${maxAttempts} attempts`,
+      500
+    );
+  }
+
+  /**
+   * Phone number a ticket is delivered to: its holder's, the gift recipient's, or the buyer's
+   */
+  private recipientOf(ticket: TicketDelivery): string {
+    return ticket.holder?.phoneNumber ?? ticket.booking.recipient?.phoneNumber ?? ticket.booking.user.phoneNumber;
+  }
+
+  /**
+   * Tells a gift recipient who sent them tickets, with the buyer's message
+   * Sent before the QR images; never throws
+   */
+  private async sendGiftNotice(booking: {
+    id: string;
+    giftMessage: string | null;
+    user: { phoneNumber: string; name: string | null };
+    recipient: { phoneNumber: string } | null;
+    items: BookingItemSummary[];
+  }): Promise<void> {
+    if (!booking.recipient) {
+      return;
+    }
+
+    const sender = booking.user.name || `0${booking.user.phoneNumber.slice(3)}`;
+
+    try {
+      await whatsappService.sendBookingUpdate(
+        booking.recipient.phoneNumber,
+        `🎁 ${sender} bought you tickets for *${bookingEventTitles(booking.items)}* ` +
+        `(${describeBookingItems(booking.items)})!\n\n` +
+        (booking.giftMessage ? `"${booking.giftMessage}"\n\n` : '') +
+        `Your QR codes are on their way. Send "my tickets" any time to get them again.`
+      );
+    } catch (error) {
+      logger.error(`Failed to send gift notice for booking ${booking.id}:`, error);
+    }
+  }
+
+  /**
+   * Generates, uploads and sends one ticket's QR image
+   * @throws AppError if any step fails
+   */
+  private async sendTicketImage(
+    ticket: TicketDelivery,
+    attempt: number = 0
+  ): Promise<void> {
+    const { ticketTier } = ticket.bookingItem;
+
+    // Generate QR code
+    const qrBuffer = await qrCodeService.generateTicketCode({
+      id: ticket.id,
+      uniqueCode: ticket.uniqueCode,
+      eventId: ticketTier.eventId,
+      tierId: ticketTier.id,
+    });
+
+    // Upload to WhatsApp
+    const mediaId = await whatsappService.uploadMedia(qrBuffer, 'image/png');
+
+    // Send image with caption
+    const caption = `🎟️ ${ticketTier.event.title} - ${ticketTier.name}`;
+    await whatsappService.sendImage(this.recipientOf(ticket), mediaId, caption, {
+      ticketId: ticket.id,
+      attempt,
+      fallback: {
+        template: 'TICKET',
+        params: {
+          headerImage: { id: mediaId },
+          body: [ticketTier.event.title, ticketTier.name, ticket.uniqueCode],
+        },
+      },
+    });
+  }
+
+  /**
+   * Sends a ticket as a text code when its image can't be delivered
+   * The code can be typed in or read out at the gate
+   */
+  private async sendTicketCodeText(ticket: TicketDelivery): Promise<void> {
+    const { ticketTier } = ticket.bookingItem;
+
+    await whatsappService.sendBookingUpdate(
+      this.recipientOf(ticket),
+      `🎟️ *${ticketTier.event.title}* - ${ticketTier.name}\n\n` +
+      `We couldn't deliver your ticket image, so here is your ticket code:\n*${ticket.uniqueCode}*\n\n` +
+      `Show this code at the gate.`
+    );
+  }
+
+  /**
+   * Sends visual ticket images (QR codes) to their holders via WhatsApp
+   * Tickets whose image can't be sent get their code as text instead
    * Uses best-effort delivery - logs errors but never throws
    * @param bookingId - The booking ID
-   * @param tickets - Array of tickets with unique codes
+   * @param tickets - Array of tickets with unique codes (and holder, if transferred)
    */
   private async sendTicketImages(
     bookingId: string,
-    tickets: Array<{ id: string; uniqueCode: string; isRedeemed: boolean }>
+    tickets: Array<{
+      id: string;
+      uniqueCode: string;
+      isRedeemed: boolean;
+      bookingItemId: string | null;
+      holder?: { phoneNumber: string } | null;
+    }>
   ): Promise<void> {
     try {
       // Fetch booking with event details for caption
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
         include: {
-          user: true,
-          ticketTier: {
-            include: {
-              event: true,
-            },
-          },
+          ...TICKET_DELIVERY_INCLUDE.booking.include,
+          ...BOOKING_ITEMS_INCLUDE,
         },
       });
 
@@ -52,24 +270,21 @@ class TicketService {
         return;
       }
 
-      const eventName = booking.ticketTier.event.title;
-      const tierName = booking.ticketTier.name;
-      const userPhone = booking.user.phoneNumber;
-
-      logger.info(`Sending ${tickets.length} ticket images to ${userPhone} for booking ${bookingId}`);
+      logger.info(`Sending ${tickets.length} ticket images for booking ${bookingId}`);
 
       // Process all tickets in parallel (best effort)
       const imagePromises = tickets.map(async (ticket, index) => {
-        try {
-          // Generate QR code
-          const qrBuffer = await qrCodeService.generateTicketCode(ticket.uniqueCode);
+        const bookingItem = booking.items.find((item) => item.id === ticket.bookingItemId);
 
-          // Upload to WhatsApp
-          const mediaId = await whatsappService.uploadMedia(qrBuffer, 'image/png');
+        if (!bookingItem) {
+          logger.error(`Cannot send ticket image for ${ticket.uniqueCode}: no booking item`);
+          return;
+        }
+
+        const delivery: TicketDelivery = { ...ticket, bookingItem, booking };
 
-          // Send image with caption
-          const caption = `🎟️ ${eventName} - ${tierName}`;
-          await whatsappService.sendImage(userPhone, mediaId, caption);
+        try {
+          await this.sendTicketImage(delivery);
 
           logger.info(`Ticket image sent: ${ticket.uniqueCode} (${index + 1}/${tickets.length})`);
         } catch (error) {
@@ -79,6 +294,10 @@ class TicketService {
             ticketCode: ticket.uniqueCode,
             bookingId,
           });
+
+          await this.sendTicketCodeText(delivery).catch((fallbackError) => {
+            logger.error(`Failed to send ticket code for ${ticket.uniqueCode}:`, fallbackError);
+          });
         }
       });
 
@@ -96,20 +315,232 @@ class TicketService {
   }
 
   /**
-   * Completes a booking by marking it as paid and generating tickets
+   * Redelivers a ticket whose image WhatsApp reported as failed
+   * Resends the image up to MAX_TICKET_IMAGE_RETRIES times, then falls back to the text code
+   * Never throws - called from the status webhook
+   * @param failed - The failed OutboundMessage (must carry a ticketId)
+   */
+  async redeliverTicket(failed: OutboundMessage): Promise<void> {
+    if (!failed.ticketId) {
+      return;
+    }
+
+    try {
+      const ticket = await prisma.ticket.findUnique({
+        where: { id: failed.ticketId },
+        include: TICKET_DELIVERY_INCLUDE,
+      });
+
+      if (!ticket?.bookingItem) {
+        logger.error(`Cannot redeliver ticket ${failed.ticketId}: not found`);
+        return;
+      }
+
+      const delivery: TicketDelivery = { ...ticket, bookingItem: ticket.bookingItem };
+
+      if (failed.attempt < MAX_TICKET_IMAGE_RETRIES) {
+        try {
+          await this.sendTicketImage(delivery, failed.attempt + 1);
+          incrementCounter('ticket_image_redelivered');
+          logger.info(`Ticket image resent: ${ticket.uniqueCode} (attempt ${failed.attempt + 1})`);
+          return;
+        } catch (error) {
+          logger.error(`Failed to resend ticket image for ${ticket.uniqueCode}:`, error);
+        }
+      }
+
+      await this.sendTicketCodeText(delivery);
+      incrementCounter('ticket_code_text_fallback');
+      logger.info(`Ticket code sent as text: ${ticket.uniqueCode}`);
+    } catch (error) {
+      logger.error(`Failed to redeliver ticket ${failed.ticketId}:`, error);
+    }
+  }
+
+  /**
+   * Queues a refund for a payment that arrived after its booking was released and sold out
+   * Idempotent per booking - replayed webhooks do not queue or notify twice
+   * @param booking - The released booking
+   * @param paymentRef - Payment reference from the provider
+   */
+  private async queueLateRefund(
+    booking: {
+      id: string;
+      totalAmount: Prisma.Decimal;
+      paymentMethod: 'MPESA' | 'CARD' | null;
+      cancelReason: string | null;
+      user: { phoneNumber: string };
+    },
+    paymentRef: string
+  ): Promise<void> {
+    const existing = await prisma.refundRequest.findUnique({
+      where: { bookingId: booking.id },
+    });
+
+    if (existing) {
+      logger.info(`Refund already queued for booking ${booking.id}`);
+      return;
+    }
+
+    await prisma.$transaction([
+      prisma.refundRequest.create({
+        data: {
+          bookingId: booking.id,
+          amount: booking.totalAmount,
+          paymentMethod: booking.paymentMethod,
+          paymentReference: paymentRef,
+          reason: `Payment arrived after booking was released (${booking.cancelReason}) and the tier sold out`,
+        },
+      }),
+      prisma.booking.update({
+        where: { id: booking.id },
+        data: { paymentReference: paymentRef },
+      }),
+    ]);
+
+    logger.warn(`Late payment for released booking ${booking.id} queued for refund (paymentRef=${paymentRef})`);
+
+    try {
+      await whatsappService.sendBookingUpdate(
+        booking.user.phoneNumber,
+        `We received your payment of KES ${booking.totalAmount} after your booking had been closed, ` +
+        `and the tickets have since sold out. 😔\n\n` +
+        `Your payment will be refunded. Reference: ${paymentRef}`
+      );
+    } catch (error) {
+      logger.error(`Failed to notify user about refund for booking ${booking.id}:`, error);
+    }
+  }
+
+  /**
+   * Moves an unpaid booking to a terminal state (expired, failed or cancelled by the user)
+   * and releases its inventory hold
+   * Uses optimistic locking so a booking that was paid in the meantime is left alone
+   * @param bookingId - The booking ID
+   * @param status - FAILED or CANCELLED
+   * @param reason - Why the booking was released (e.g. EXPIRED)
+   * @returns true if the booking was released, false if it was no longer unpaid
+   */
+  async releaseUnpaidBooking(
+    bookingId: string,
+    status: 'FAILED' | 'CANCELLED',
+    reason: string
+  ): Promise<boolean> {
+    const released = await prisma.$transaction(async (tx) => {
+      const booking = await tx.booking.findUnique({
+        where: { id: bookingId },
+        select: {
+          items: {
+            select: { ticketTierId: true, quantity: true },
+          },
+        },
+      });
+
+      if (!booking) {
+        return false;
+      }
+
+      const updateResult = await tx.booking.updateMany({
+        where: {
+          id: bookingId,
+          status: {
+            in: UNPAID_STATUSES,
+          },
+        },
+        data: {
+          status,
+          cancelReason: reason,
+        },
+      });
+
+      if (updateResult.count === 0) {
+        return false;
+      }
+
+      for (const item of inventoryService.lockOrder(booking.items, (line) => line.ticketTierId)) {
+        await inventoryService.release(tx, item.ticketTierId, item.quantity);
+      }
+      await promoService.release(tx, bookingId);
+      return true;
+    });
+
+    if (released) {
+      logger.info(`Booking ${bookingId} released: status=${status}, reason=${reason}`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Marks an unpaid booking as PARTIAL (underpaid); the inventory hold is kept
+   * until support resolves the payment exception
+   * @param bookingId - The booking ID
+   * @param paymentRef - Payment reference from the provider
+   * @returns true if the booking was marked, false if it was no longer unpaid
+   */
+  async markPartiallyPaid(bookingId: string, paymentRef: string): Promise<boolean> {
+    const updateResult = await prisma.booking.updateMany({
+      where: {
+        id: bookingId,
+        status: {
+          in: ['PENDING', 'AWAITING_PAYMENT'],
+        },
+      },
+      data: {
+        status: 'PARTIAL',
+        paymentReference: paymentRef,
+      },
+    });
+
+    if (updateResult.count > 0) {
+      logger.warn(`Booking ${bookingId} marked PARTIAL (paymentRef=${paymentRef})`);
+    }
+
+    return updateResult.count > 0;
+  }
+
+  /**
+   * Frees a user's checkout after their booking was released
+   * Drops the per-user tier locks and resets the session if it still points at the booking
+   * @param booking - The released booking
+   * @param phone - The booking owner's phone number
+   */
+  async releaseUserCheckout(
+    booking: { id: string },
+    phone: string
+  ): Promise<void> {
+    const items = await prisma.bookingItem.findMany({
+      where: { bookingId: booking.id },
+      select: { ticketTierId: true },
+    });
+
+    for (const item of items) {
+      await redisService.safeReleaseLock(`tier:${item.ticketTierId}:user:${phone}`, phone);
+    }
+
+    // Compare-and-set, so a message that moved the session on since the read isn't wiped
+    const session = await redisService.getSession(phone);
+    if (session.data.tempBookingId === booking.id) {
+      await redisService.transitionSession(phone, session, BotState.IDLE);
+    }
+  }
+
+  /**
+   * Completes a booking by marking it as paid and generating each item's tickets
    * Uses optimistic locking to prevent double-processing
+   * Payments for released bookings are honoured if stock remains, otherwise queued for refund
    * Sends visual ticket images (QR codes) via WhatsApp
    * @param bookingId - The booking ID
    * @param paymentRef - Payment reference (invoice ID or order tracking ID)
    * @param paymentPhone - Optional payment phone number from webhook
-   * @returns Array of created tickets
+   * @returns Array of created tickets (empty if a late payment was queued for refund)
    * @throws AppError if booking not found or already processed
    */
   async completeBooking(
     bookingId: string,
     paymentRef: string,
     paymentPhone?: string
-  ): Promise<Array<{ id: string; uniqueCode: string; isRedeemed: boolean }>> {
+  ): Promise<Array<{ id: string; uniqueCode: string; isRedeemed: boolean; bookingItemId: string | null }>> {
     try {
       logger.info(`Completing booking: bookingId=${bookingId}, paymentRef=${paymentRef}`);
 
@@ -117,8 +548,10 @@ class TicketService {
       const existingBooking = await prisma.booking.findUnique({
         where: { id: bookingId },
         include: {
-          ticketTier: true,
+          user: true,
+          recipient: true,
           tickets: true,
+          ...BOOKING_ITEMS_INCLUDE,
         },
       });
 
@@ -129,6 +562,7 @@ class TicketService {
           id: ticket.id,
           uniqueCode: ticket.uniqueCode,
           isRedeemed: ticket.isRedeemed,
+          bookingItemId: ticket.bookingItemId,
         }));
       }
 
@@ -136,118 +570,138 @@ class TicketService {
         throw new AppError(`Booking ${bookingId} not found`, 404);
       }
 
+      // Late payment: the booking was released unpaid (expired, STK failed, cancelled
+      // mid-payment) before the payment landed
+      const isLatePayment =
+        (existingBooking.status === 'CANCELLED' || existingBooking.status === 'FAILED') &&
+        existingBooking.cancelReason !== null;
+
       // Check if booking is in a processable state
-      if (existingBooking.status !== 'PENDING' && existingBooking.status !== 'AWAITING_PAYMENT') {
+      if (!isLatePayment && !UNPAID_STATUSES.includes(existingBooking.status)) {
         throw new AppError(
           `Booking ${bookingId} is in ${existingBooking.status} state and cannot be completed`,
           400
         );
       }
 
-      const tierId = existingBooking.ticketTierId;
-      const quantity = existingBooking.quantity;
+      const { items } = existingBooking;
+
+      if (items.length === 0) {
+        throw new AppError(`Booking ${bookingId} has no items`, 500);
+      }
 
       // Step 2: Generate unique ticket codes (before transaction - safe as we check uniqueness)
       const ticketsToCreate: Prisma.TicketCreateManyInput[] = [];
-      
-      for (let i = 0; i < quantity; i++) {
-        let uniqueCode: string;
-        let isUnique = false;
-        let attempts = 0;
-        const maxAttempts = 10;
-
-        // Ensure code is unique (retry if collision)
-        while (!isUnique && attempts < maxAttempts) {
-          uniqueCode = this.generateTicketCode();
-          
-          // Check if code already exists
-          const existing = await prisma.ticket.findUnique({
-            where: { uniqueCode },
-          });
 
-          if (!existing) {
-            isUnique = true;
-          } else {
-            attempts++;
-            logger.warn(`Ticket code collision detected: ${uniqueCode}, retrying...`);
-          }
-        }
+      for (const item of items) {
+        for (let i = 0; i < item.quantity; i++) {
+          const uniqueCode = await this.generateUniqueTicketCode();
 
-        if (!isUnique) {
-          throw new AppError(
-            `Failed to generate unique ticket code after ${maxAttempts} attempts`,
-            500
-          );
+          ticketsToCreate.push({
+            uniqueCode,
+            bookingId: bookingId,
+            bookingItemId: item.id,
+            isRedeemed: false,
+            holderId: existingBooking.recipientId, // Gifts are issued straight to the recipient
+          });
         }
-
-        ticketsToCreate.push({
-          uniqueCode: uniqueCode!,
-          bookingId: bookingId,
-          isRedeemed: false,
-        });
       }
 
       // Step 3: Atomic transaction - Update booking, increment quantitySold, create tickets
-      const result = await prisma.$transaction(async (tx) => {
-        // Update booking status (with optimistic locking)
-        const updateResult = await tx.booking.updateMany({
-          where: {
-            id: bookingId,
-            status: {
-              in: ['PENDING', 'AWAITING_PAYMENT'],
+      let lateSoldOut = false;
+      let result: Array<{ id: string; uniqueCode: string; isRedeemed: boolean; bookingItemId: string | null }>;
+
+      try {
+        result = await prisma.$transaction(async (tx) => {
+          // Update booking status (with optimistic locking)
+          const updateResult = await tx.booking.updateMany({
+            where: isLatePayment
+              ? {
+                  id: bookingId,
+                  status: existingBooking.status,
+                  cancelReason: existingBooking.cancelReason,
+                }
+              : {
+                  id: bookingId,
+                  status: {
+                    in: UNPAID_STATUSES,
+                  },
+                },
+            data: {
+              status: 'PAID',
+              paymentReference: paymentRef,
+              ...(isLatePayment && { cancelReason: null }),
+              ...(paymentPhone && { paymentPhoneNumber: paymentPhone }),
             },
-          },
-          data: {
-            status: 'PAID',
-            paymentReference: paymentRef,
-            ...(paymentPhone && { paymentPhoneNumber: paymentPhone }),
-          },
-        });
+          });
 
-        if (updateResult.count === 0) {
-          throw new AppError(
-            `Booking ${bookingId} was already processed by another transaction`,
-            409
-          );
-        }
+          if (updateResult.count === 0) {
+            throw new AppError(
+              `Booking ${bookingId} was already processed by another transaction`,
+              409
+            );
+          }
 
-        // Increment quantitySold for the ticket tier
-        await tx.ticketTier.update({
-          where: { id: tierId },
-          data: {
-            quantitySold: {
-              increment: quantity,
-            },
-          },
-        });
+          if (isLatePayment) {
+            // The holds were released on expiry - only honour if every item still has stock
+            for (const item of inventoryService.lockOrder(items, (line) => line.ticketTierId)) {
+              const sold = await inventoryService.sellUnreserved(tx, item.ticketTierId, item.quantity);
 
-        // Create all tickets
-        await tx.ticket.createMany({
-          data: ticketsToCreate,
-        });
+              if (!sold) {
+                lateSoldOut = true;
+                throw new AppError(
+                  `No stock left to honour late payment for booking ${bookingId} (tier ${item.ticketTierId})`,
+                  409
+                );
+              }
+            }
 
-        logger.info(
-          `Transaction completed: Updated booking ${bookingId} to PAID, incremented quantitySold by ${quantity} for tier ${tierId}, created ${ticketsToCreate.length} tickets`
-        );
+            await promoService.restore(tx, bookingId);
 
-        // Return created tickets
-        return await tx.ticket.findMany({
-          where: {
-            bookingId: bookingId,
-            uniqueCode: {
-              in: ticketsToCreate.map(t => t.uniqueCode),
+            logger.info(`Honouring late payment for released booking ${bookingId} (${existingBooking.cancelReason})`);
+          } else {
+            // Convert the booking's holds into sold tickets
+            for (const item of inventoryService.lockOrder(items, (line) => line.ticketTierId)) {
+              await inventoryService.convert(tx, item.ticketTierId, item.quantity);
+            }
+          }
+
+          // Create all tickets
+          await tx.ticket.createMany({
+            data: ticketsToCreate,
+          });
+
+          logger.info(
+            `Transaction completed: Updated booking ${bookingId} to PAID, incremented quantitySold for ${items.length} tier(s), created ${ticketsToCreate.length} tickets`
+          );
+
+          // Return created tickets
+          return await tx.ticket.findMany({
+            where: {
+              bookingId: bookingId,
+              uniqueCode: {
+                in: ticketsToCreate.map(t => t.uniqueCode),
+              },
             },
-          },
-          select: {
-            id: true,
-            uniqueCode: true,
-            isRedeemed: true,
-          },
+            select: {
+              id: true,
+              uniqueCode: true,
+              isRedeemed: true,
+              bookingItemId: true,
+            },
+          });
         });
-      });
+      } catch (error) {
+        if (lateSoldOut) {
+          await this.queueLateRefund(existingBooking, paymentRef);
+          return [];
+        }
+        throw error;
+      }
 
       // Step 4: Send visual tickets (QR codes) via WhatsApp (outside transaction)
       // This is a new booking completion (not idempotent retry), so send images
+      await this.sendGiftNotice(existingBooking);
       await this.sendTicketImages(bookingId, result);
 
       return result;
@@ -268,7 +722,407 @@ class TicketService {
   }
 
   /**
-   * Cancels a paid booking and decrements quantitySold
+   * Sends WhatsApp confirmation message after successful payment
+   * Gift buyers get a receipt only - the codes went to the recipient
+   * Never throws - the payment is already processed
+   * @param bookingId - The booking ID
+   */
+  async sendPaymentConfirmation(bookingId: string): Promise<void> {
+    try {
+      // Fetch booking with all related data
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+          user: true,
+          recipient: true,
+          tickets: true,
+          promoRedemption: {
+            include: { promoCode: true },
+          },
+          ...BOOKING_ITEMS_INCLUDE,
+        },
+      });
+
+      if (!booking) {
+        logger.warn(`Cannot send confirmation: Booking ${bookingId} not found`);
+        return;
+      }
+
+      // Late payments queued for refund stay unpaid - the user was already told
+      if (booking.status !== 'PAID') {
+        logger.info(`Skipping confirmation: Booking ${bookingId} is ${booking.status}`);
+        return;
+      }
+
+      const promoLine = booking.promoRedemption
+        ? `*Promo:* ${booking.promoRedemption.promoCode.code} (-KES ${booking.promoRedemption.discountAmount})\n`
+        : '';
+
+      if (booking.recipient) {
+        await whatsappService.sendBookingUpdate(
+          booking.user.phoneNumber,
+          `✅ *Gift Sent!*\n\n` +
+          `*Event:* ${bookingEventTitles(booking.items)}\n` +
+          `*Tickets:* ${describeBookingItems(booking.items)}\n` +
+          promoLine +
+          `*Total:* KES ${booking.totalAmount}\n` +
+          `*Sent to:* 0${booking.recipient.phoneNumber.slice(3)}\n\n` +
+          `Their tickets have been delivered to them on WhatsApp. 🎁`
+        );
+
+        logger.info(`Gift receipt sent to ${booking.user.phoneNumber} for booking ${bookingId}`);
+        return;
+      }
+
+      // Format ticket codes (tickets transferred away belong to someone else now)
+      const ownTickets = booking.tickets.filter((t) => !t.holderId || t.holderId === booking.userId);
+      const ticketCodes = ownTickets.map((t) => t.uniqueCode).join('\n');
+
+      // Format event date
+      const formatDate = (date: Date) => new Date(date).toLocaleDateString('en-KE', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+
+      // One block per event in the cart
+      const events = [...new Map(booking.items.map((item) => [item.ticketTier.eventId, item.ticketTier.event])).values()];
+      const eventBlocks = events.map((event) => {
+        const eventItems = booking.items.filter((item) => item.ticketTier.eventId === event.id);
+
+        return (
+          `*Event:* ${event.title}\n` +
+          `*Date:* ${formatDate(event.startTime)}\n` +
+          `*Venue:* ${event.venue}\n` +
+          `*Tickets:* ${describeBookingItems(eventItems)}\n`
+        );
+      });
+
+      // Build confirmation message
+      const message =
+        `✅ *Booking Confirmed!*\n\n` +
+        eventBlocks.join('\n') +
+        promoLine +
+        `*Total:* KES ${booking.totalAmount}\n\n` +
+        `*Your Ticket Codes:*\n${ticketCodes}\n\n` +
+        `Show these codes at the venue entrance. Keep them safe! 🎫\n\n` +
+        `Powered by Dumu Technologies 🚀 https://dumu-website.vercel.app/`;
+
+      // Send WhatsApp message (as a template if the user's last message was over 24h ago)
+      await whatsappService.sendText(booking.user.phoneNumber, message, {
+        template: 'PAYMENT_CONFIRMED',
+        params: {
+          body: [
+            bookingEventTitles(booking.items),
+            formatDate(events[0].startTime),
+            `${describeBookingItems(booking.items)} (KES ${booking.totalAmount})`,
+            ownTickets.map((t) => t.uniqueCode).join(', '),
+          ],
+        },
+      });
+
+      logger.info(`Payment confirmation sent to ${booking.user.phoneNumber} for booking ${bookingId}`);
+    } catch (error) {
+      // Log error but don't throw - payment is already processed
+      logger.error(`Failed to send payment confirmation for booking ${bookingId}:`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+    }
+  }
+
+  /**
+   * Lists paid bookings the user holds tickets in, for events that haven't ended (soonest first)
+   * Includes bookings with tickets transferred to the user; each booking carries only the
+   * tickets the user holds
+   * @param userId - The user ID
+   * @param limit - Maximum bookings to return
+   */
+  async getUpcomingBookings(userId: string, limit: number = 10) {
+    const bookings = await prisma.booking.findMany({
+      where: {
+        tickets: {
+          some: heldBy(userId),
+        },
+        status: 'PAID',
+        items: {
+          some: {
+            ticketTier: {
+              event: {
+                endTime: {
+                  gt: new Date(),
+                },
+              },
+            },
+          },
+        },
+      },
+      include: {
+        tickets: {
+          where: heldBy(userId),
+          select: {
+            id: true,
+          },
+        },
+        ...BOOKING_ITEMS_INCLUDE,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: limit,
+    });
+
+    // A cart can span events - order by its first event
+    const firstStart = (booking: (typeof bookings)[number]) =>
+      Math.min(...booking.items.map((item) => item.ticketTier.event.startTime.getTime()));
+
+    return bookings.sort((a, b) => firstStart(a) - firstStart(b));
+  }
+
+  /**
+   * Re-sends the QR images and ticket codes the user holds in a paid booking
+   * The booking's owner gets the full confirmation; a transfer recipient gets their codes
+   * @param bookingId - The booking ID
+   * @param userId - The requesting user (must hold tickets in the booking)
+   * @throws AppError if the user holds no tickets in the booking or it isn't paid
+   */
+  async resendTickets(bookingId: string, userId: string): Promise<void> {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: {
+        tickets: {
+          where: heldBy(userId),
+          include: {
+            holder: true,
+          },
+        },
+        ...BOOKING_ITEMS_INCLUDE,
+      },
+    });
+
+    if (!booking || booking.tickets.length === 0) {
+      throw new AppError(`Booking ${bookingId} not found`, 404);
+    }
+
+    if (booking.status !== 'PAID') {
+      throw new AppError(`Booking ${bookingId} has no tickets to send`, 409);
+    }
+
+    await this.sendTicketImages(booking.id, booking.tickets);
+
+    if (booking.userId === userId) {
+      await this.sendPaymentConfirmation(booking.id);
+    } else {
+      const tierName = (ticketItemId: string | null) =>
+        booking.items.find((item) => item.id === ticketItemId)?.ticketTier.name;
+
+      await whatsappService.sendBookingUpdate(
+        booking.tickets[0].holder!.phoneNumber,
+        `🎟️ *${bookingEventTitles(booking.items)}*\n\n` +
+        `*Your Ticket Codes:*\n${booking.tickets.map((t) => `${t.uniqueCode} (${tierName(t.bookingItemId)})`).join('\n')}\n\n` +
+        `Show these codes at the venue entrance. Keep them safe! 🎫`
+      );
+    }
+
+    logger.info(`Tickets re-sent for booking ${bookingId}`);
+  }
+
+  /**
+   * Lists tickets the user can transfer: held by them, unused, for paid bookings
+   * to events that haven't ended (soonest first)
+   * @param userId - The user ID
+   * @param limit - Maximum tickets to return
+   */
+  async getTransferableTickets(userId: string, limit: number = 10) {
+    const tickets = await prisma.ticket.findMany({
+      where: {
+        ...heldBy(userId),
+        isRedeemed: false,
+        booking: {
+          status: 'PAID',
+        },
+        bookingItem: {
+          ticketTier: {
+            event: {
+              endTime: {
+                gt: new Date(),
+              },
+            },
+          },
+        },
+      },
+      include: {
+        bookingItem: {
+          include: {
+            ticketTier: {
+              include: {
+                event: true,
+              },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { bookingItem: { ticketTier: { event: { startTime: 'asc' } } } },
+        { createdAt: 'asc' },
+      ],
+      take: limit,
+    });
+
+    // The filter only matches tickets with an item
+    return tickets.map((ticket) => ({ ...ticket, bookingItem: ticket.bookingItem! }));
+  }
+
+  /**
+   * Transfers a ticket to another Kenyan number
+   * Reissues the ticket code (the old QR stops scanning), creates or links the recipient's
+   * user, records the transfer and delivers the new QR to the recipient.
+   * Uses optimistic locking on the old code so a ticket can't be transferred or
+   * redeemed twice concurrently
+   * @param ticketId - The ticket ID
+   * @param fromUserId - The current holder
+   * @param recipientPhone - Recipient's phone number in any Kenyan format
+   * @returns The reissued code and the recipient's normalized phone number
+   * @throws AppError if the number is invalid, the user doesn't hold the ticket, or it
+   * can no longer be transferred
+   */
+  async transferTicket(
+    ticketId: string,
+    fromUserId: string,
+    recipientPhone: string
+  ): Promise<{ uniqueCode: string; recipientPhone: string }> {
+    if (!validatePhoneNumber(recipientPhone)) {
+      throw new AppError(`Invalid recipient phone number: ${recipientPhone}`, 400);
+    }
+
+    const recipient = normalizePhoneNumber(recipientPhone);
+    const newCode = await this.generateUniqueTicketCode();
+
+    const transfer = await prisma.$transaction(async (tx) => {
+      const ticket = await tx.ticket.findUnique({
+        where: { id: ticketId },
+        include: {
+          holder: true,
+          bookingItem: {
+            include: {
+              ticketTier: {
+                include: {
+                  event: true,
+                },
+              },
+            },
+          },
+          booking: {
+            include: {
+              user: true,
+            },
+          },
+        },
+      });
+
+      const holder = ticket && (ticket.holder ?? ticket.booking.user);
+
+      if (!ticket || !ticket.bookingItem || !holder || holder.id !== fromUserId) {
+        throw new AppError(`Ticket ${ticketId} not found`, 404);
+      }
+
+      const { event } = ticket.bookingItem.ticketTier;
+
+      if (
+        ticket.isRedeemed ||
+        ticket.booking.status !== 'PAID' ||
+        event.endTime <= new Date()
+      ) {
+        throw new AppError(`Ticket ${ticketId} can no longer be transferred`, 409);
+      }
+
+      if (holder.phoneNumber === recipient) {
+        throw new AppError(`Ticket ${ticketId} already belongs to ${recipient}`, 400);
+      }
+
+      const recipientUser = await tx.user.upsert({
+        where: { phoneNumber: recipient },
+        create: { phoneNumber: recipient },
+        update: {},
+      });
+
+      // Reissue the code (with optimistic locking)
+      const updateResult = await tx.ticket.updateMany({
+        where: {
+          id: ticketId,
+          uniqueCode: ticket.uniqueCode,
+          isRedeemed: false,
+        },
+        data: {
+          uniqueCode: newCode,
+          holderId: recipientUser.id,
+        },
+      });
+
+      if (updateResult.count === 0) {
+        throw new AppError(
+          `Ticket ${ticketId} was redeemed or transferred by another transaction`,
+          409
+        );
+      }
+
+      await tx.ticketTransfer.create({
+        data: {
+          ticketId,
+          fromUserId: holder.id,
+          toUserId: recipientUser.id,
+          previousCode: ticket.uniqueCode,
+          newCode,
+        },
+      });
+
+      return { ticket, holder, event };
+    });
+
+    incrementCounter('ticket_transferred');
+    logger.info(
+      `Ticket ${ticketId} transferred from ${transfer.holder.phoneNumber} to ${recipient} ` +
+      `(code ${transfer.ticket.uniqueCode} -> ${newCode})`
+    );
+
+    // Deliver the new QR to the recipient (best effort - the transfer is done)
+    const { event } = transfer;
+    const sender = transfer.holder.name || `0${transfer.holder.phoneNumber.slice(3)}`;
+
+    try {
+      await whatsappService.sendBookingUpdate(
+        recipient,
+        `🎁 ${sender} transferred a ticket for *${event.title}* to you.\n\n` +
+        `Your QR code is on its way. Send "my tickets" any time to get it again.`
+      );
+    } catch (error) {
+      logger.error(`Failed to notify transfer recipient ${recipient}:`, error);
+    }
+
+    const ticket = await prisma.ticket.findUniqueOrThrow({
+      where: { id: ticketId },
+      include: TICKET_DELIVERY_INCLUDE,
+    });
+    const delivery: TicketDelivery = { ...ticket, bookingItem: transfer.ticket.bookingItem! };
+
+    try {
+      await this.sendTicketImage(delivery);
+    } catch (error) {
+      logger.error(`Failed to send transferred ticket image for ${newCode}:`, error);
+
+      await this.sendTicketCodeText(delivery).catch((fallbackError) => {
+        logger.error(`Failed to send transferred ticket code for ${newCode}:`, fallbackError);
+      });
+    }
+
+    return { uniqueCode: newCode, recipientPhone: recipient };
+  }
+
+  /**
+   * Cancels a paid booking and decrements each item's quantitySold
    * Should be called when a booking is refunded or cancelled
    * Uses transaction to ensure atomicity
    * @param bookingId - The booking ID to cancel
@@ -286,7 +1140,7 @@ class TicketService {
       const booking = await prisma.booking.findUnique({
         where: { id: bookingId },
         include: {
-          ticketTier: true,
+          items: true,
         },
       });
 
@@ -302,9 +1156,6 @@ class TicketService {
         );
       }
 
-      const tierId = booking.ticketTierId;
-      const quantity = booking.quantity;
-
       // Step 2: Atomic transaction - Update booking status and decrement quantitySold
       await prisma.$transaction(async (tx) => {
         // Update booking status to CANCELLED
@@ -325,18 +1176,22 @@ class TicketService {
           );
         }
 
-        // Decrement quantitySold for the ticket tier
-        await tx.ticketTier.update({
-          where: { id: tierId },
-          data: {
-            quantitySold: {
-              decrement: quantity,
+        // Decrement quantitySold for each item's ticket tier
+        for (const item of inventoryService.lockOrder(booking.items, (line) => line.ticketTierId)) {
+          await tx.ticketTier.update({
+            where: { id: item.ticketTierId },
+            data: {
+              quantitySold: {
+                decrement: item.quantity,
+              },
             },
-          },
-        });
+          });
+        }
+
+        await promoService.release(tx, bookingId);
 
         logger.info(
-          `Transaction completed: Updated booking ${bookingId} to CANCELLED, decremented quantitySold by ${quantity} for tier ${tierId}`
+          `Transaction completed: Updated booking ${bookingId} to CANCELLED, decremented quantitySold for ${booking.items.length} tier(s)`
         );
       });
     } catch (error) {
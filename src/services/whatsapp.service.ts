@@ -2,19 +2,36 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import FormData from 'form-data';
 import dotenv from 'dotenv';
 import logger from '../config/logger';
+import prisma from '../config/prisma';
 import { AppError } from '../utils/AppError';
 import { normalizePhoneNumber } from '../utils/phoneNormalizer';
+import { incrementCounter } from '../utils/metrics';
+import outboundMessageService from './outboundMessage.service';
+import outboundQueueService, { DeadLetterInput } from './outboundQueue.service';
+import { OutboundDeadLetter } from '@prisma/client';
 import {
   WaApiResponse,
   WaServiceResponse,
   WaButton,
   WaListSection,
+  WaTemplateFallback,
+  WaTemplateKey,
+  WaTemplateParams,
+  WhatsAppApiError,
 } from '../types/whatsapp';
+import { WA_TEMPLATES } from '../config/whatsappTemplates';
 
 dotenv.config();
 
+// Session messages are only delivered within 24h of the user's last message (5 min safety margin)
+const CUSTOMER_SERVICE_WINDOW_MS = (24 * 60 - 5) * 60 * 1000;
+
+// Meta error: message failed because more than 24 hours have passed since the user last replied
+const WINDOW_CLOSED_ERROR_CODE = 131047;
+
 /**
  * WhatsAppService handles communication with WhatsApp Cloud API
+ * Every message sent is recorded as an OutboundMessage for delivery tracking
  */
 class WhatsAppService {
   private axiosInstance: AxiosInstance;
@@ -62,20 +79,26 @@ class WhatsAppService {
   /**
    * Private helper to send requests to WhatsApp API
    * Handles authentication and error extraction
+   * Requests go through the outbound queue (throughput limit, backoff on 429/5xx)
    */
   private async sendRequest(
     endpoint: string,
-    payload: any
+    payload: any,
+    deadLetter?: DeadLetterInput
   ): Promise<WaApiResponse> {
     try {
-      const response = await this.axiosInstance.post<WaApiResponse>(
-        endpoint,
-        payload,
-        {
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-          },
-        }
+      // Paced and retried by the outbound queue; deadLetter stores it if every attempt fails
+      const response = await outboundQueueService.run(
+        () => this.axiosInstance.post<WaApiResponse>(
+          endpoint,
+          payload,
+          {
+            headers: {
+              Authorization: `Bearer ${this.accessToken}`,
+            },
+          }
+        ),
+        deadLetter
       );
 
       return response.data;
@@ -105,9 +128,9 @@ class WhatsAppService {
             responseData: axiosError.response?.data,
           });
 
-          throw new AppError(
+          throw new WhatsAppApiError(
             `WhatsApp API error (${errorType}): ${errorMessage}`,
-            500
+            typeof errorCode === 'number' ? errorCode : undefined
           );
         }
       }
@@ -122,9 +145,18 @@ class WhatsAppService {
    * Sends a simple text message
    * @param to - Recipient phone number (will be normalized)
    * @param body - Message text
+   * @param fallback - Template to send instead if the 24-hour window is closed
    * @returns Message ID
    */
-  async sendText(to: string, body: string): Promise<WaServiceResponse> {
+  async sendText(to: string, body: string, fallback?: WaTemplateFallback): Promise<WaServiceResponse> {
+    return await this.withTemplateFallback(to, fallback, () => this.sendSessionText(to, body, !!fallback));
+  }
+
+  /**
+   * Sends a text session message
+   * @param hasFallback - A template follows if the window is closed (that rejection isn't dead-lettered)
+   */
+  private async sendSessionText(to: string, body: string, hasFallback: boolean): Promise<WaServiceResponse> {
     try {
       // Validate configuration
       this.validateConfig();
@@ -143,7 +175,13 @@ class WhatsAppService {
         },
       };
 
-      const response = await this.sendRequest('/messages', payload);
+      const response = await this.sendRequest('/messages', payload, {
+        endpoint: '/messages',
+        recipient: normalizedTo,
+        type: 'TEXT',
+        payload,
+        recoverableMetaCodes: hasFallback ? [WINDOW_CLOSED_ERROR_CODE] : undefined,
+      });
 
       if (!response.messages || response.messages.length === 0) {
         throw new AppError('WhatsApp API returned no message ID', 500);
@@ -153,6 +191,13 @@ class WhatsAppService {
 
       logger.info(`WhatsApp message sent: messageId=${messageId}`);
 
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: normalizedTo,
+        type: 'TEXT',
+        body,
+      });
+
       return { messageId };
     } catch (error) {
       logger.error(`Failed to send WhatsApp text message to ${to}:`, error);
@@ -166,6 +211,20 @@ class WhatsAppService {
     }
   }
 
+  /**
+   * Sends a booking notification that may go out long after the user's last message
+   * (payment results, expiry, refunds); falls back to the BOOKING_UPDATE template
+   * @param to - Recipient phone number (will be normalized)
+   * @param body - Message text (flattened to one line if sent as a template)
+   * @returns Message ID
+   */
+  async sendBookingUpdate(to: string, body: string): Promise<WaServiceResponse> {
+    return await this.sendText(to, body, {
+      template: 'BOOKING_UPDATE',
+      params: { body: [body] },
+    });
+  }
+
   /**
    * Sends an interactive message with buttons
    * @param to - Recipient phone number (will be normalized)
@@ -217,7 +276,12 @@ class WhatsAppService {
         },
       };
 
-      const response = await this.sendRequest('/messages', payload);
+      const response = await this.sendRequest('/messages', payload, {
+        endpoint: '/messages',
+        recipient: normalizedTo,
+        type: 'BUTTONS',
+        payload,
+      });
 
       if (!response.messages || response.messages.length === 0) {
         throw new AppError('WhatsApp API returned no message ID', 500);
@@ -227,6 +291,13 @@ class WhatsAppService {
 
       logger.info(`WhatsApp buttons sent: messageId=${messageId}`);
 
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: normalizedTo,
+        type: 'BUTTONS',
+        body,
+      });
+
       return { messageId };
     } catch (error) {
       logger.error(`Failed to send WhatsApp buttons to ${to}:`, error);
@@ -313,7 +384,12 @@ class WhatsAppService {
         },
       };
 
-      const response = await this.sendRequest('/messages', payload);
+      const response = await this.sendRequest('/messages', payload, {
+        endpoint: '/messages',
+        recipient: normalizedTo,
+        type: 'LIST',
+        payload,
+      });
 
       if (!response.messages || response.messages.length === 0) {
         throw new AppError('WhatsApp API returned no message ID', 500);
@@ -323,6 +399,13 @@ class WhatsAppService {
 
       logger.info(`WhatsApp list sent: messageId=${messageId}`);
 
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: normalizedTo,
+        type: 'LIST',
+        body,
+      });
+
       return { messageId };
     } catch (error) {
       logger.error(`Failed to send WhatsApp list to ${to}:`, error);
@@ -388,25 +471,28 @@ class WhatsAppService {
     }
 
     try {
-      // Create FormData with file
-      const form = new FormData();
-      form.append('messaging_product', 'whatsapp');
-      form.append('file', fileBuffer, {
-        filename: 'ticket.png',
-        contentType: mimeType,
-      });
-
       // Build media upload URL
       const uploadUrl = `https://graph.facebook.com/${this.apiVersion}/${this.phoneNumberId}/media`;
 
       logger.info(`Uploading media to WhatsApp, size=${fileBuffer.length} bytes, type=${mimeType}`);
 
-      // Upload with merged headers (form headers + authorization)
-      const response = await axios.post(uploadUrl, form, {
-        headers: {
-          ...form.getHeaders(),
-          Authorization: `Bearer ${this.accessToken}`,
-        },
+      // Paced and retried like messages; a failed upload is not dead-lettered (the buffer isn't kept)
+      const response = await outboundQueueService.run(() => {
+        // Create FormData with file (a fresh stream per attempt)
+        const form = new FormData();
+        form.append('messaging_product', 'whatsapp');
+        form.append('file', fileBuffer, {
+          filename: 'ticket.png',
+          contentType: mimeType,
+        });
+
+        // Upload with merged headers (form headers + authorization)
+        return axios.post(uploadUrl, form, {
+          headers: {
+            ...form.getHeaders(),
+            Authorization: `Bearer ${this.accessToken}`,
+          },
+        });
       });
 
       if (!response.data || !response.data.id) {
@@ -459,13 +545,33 @@ class WhatsAppService {
    * @param to - Recipient phone number (will be normalized)
    * @param mediaId - Media ID from uploadMedia()
    * @param caption - Optional caption for the image
+   * @param options - Ticket the image carries and its redelivery attempt (for delivery tracking),
+   * and the template to send instead if the 24-hour window is closed
    * @returns Message ID
    * @throws AppError if send fails or validation fails
    */
   async sendImage(
     to: string,
     mediaId: string,
-    caption?: string
+    caption?: string,
+    options?: { ticketId?: string; attempt?: number; fallback?: WaTemplateFallback }
+  ): Promise<WaServiceResponse> {
+    return await this.withTemplateFallback(
+      to,
+      options?.fallback,
+      () => this.sendSessionImage(to, mediaId, caption, options),
+      options
+    );
+  }
+
+  /**
+   * Sends an image session message
+   */
+  private async sendSessionImage(
+    to: string,
+    mediaId: string,
+    caption?: string,
+    options?: { ticketId?: string; attempt?: number; fallback?: WaTemplateFallback }
   ): Promise<WaServiceResponse> {
     try {
       // Validate configuration
@@ -496,7 +602,15 @@ class WhatsAppService {
         payload.image.caption = caption;
       }
 
-      const response = await this.sendRequest('/messages', payload);
+      const response = await this.sendRequest('/messages', payload, {
+        endpoint: '/messages',
+        recipient: normalizedTo,
+        type: 'IMAGE',
+        payload,
+        ticketId: options?.ticketId,
+        // A closed window is handled by sending the fallback template instead
+        recoverableMetaCodes: options?.fallback ? [WINDOW_CLOSED_ERROR_CODE] : undefined,
+      });
 
       if (!response.messages || response.messages.length === 0) {
         throw new AppError('WhatsApp API returned no message ID', 500);
@@ -506,6 +620,16 @@ class WhatsAppService {
 
       logger.info(`WhatsApp image sent: messageId=${messageId}`);
 
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: normalizedTo,
+        type: 'IMAGE',
+        body: caption,
+        mediaId,
+        ticketId: options?.ticketId,
+        attempt: options?.attempt,
+      });
+
       return { messageId };
     } catch (error) {
       logger.error(`Failed to send WhatsApp image to ${to}:`, error);
@@ -518,6 +642,215 @@ class WhatsAppService {
       );
     }
   }
+
+  /**
+   * Whether the recipient messaged us within the last 24 hours (session messages allowed)
+   * Assumes open if the lookup fails - a closed window is still caught from Meta's error
+   */
+  private async isWindowOpen(phoneNumber: string): Promise<boolean> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { phoneNumber },
+        select: { lastInboundAt: true },
+      });
+
+      return !!user?.lastInboundAt && Date.now() - user.lastInboundAt.getTime() < CUSTOMER_SERVICE_WINDOW_MS;
+    } catch (error) {
+      logger.warn(`Could not check messaging window for ${phoneNumber}:`, error instanceof Error ? error.message : 'Unknown error');
+      return true;
+    }
+  }
+
+  /**
+   * Sends a session message, or the fallback template when the 24-hour window is closed
+   * (checked up front from lastInboundAt, and again if Meta rejects the session message)
+   */
+  private async withTemplateFallback(
+    to: string,
+    fallback: WaTemplateFallback | undefined,
+    send: () => Promise<WaServiceResponse>,
+    tracking?: { ticketId?: string; attempt?: number }
+  ): Promise<WaServiceResponse> {
+    if (!fallback) {
+      return await send();
+    }
+
+    const normalizedTo = normalizePhoneNumber(to);
+
+    if (!(await this.isWindowOpen(normalizedTo))) {
+      incrementCounter('whatsapp_template_fallback', { reason: 'window_closed' });
+      return await this.sendTemplate(normalizedTo, fallback.template, fallback.params, tracking);
+    }
+
+    try {
+      return await send();
+    } catch (error) {
+      if (error instanceof WhatsAppApiError && error.metaCode === WINDOW_CLOSED_ERROR_CODE) {
+        incrementCounter('whatsapp_template_fallback', { reason: 'rejected' });
+        logger.info(`Messaging window closed for ${normalizedTo}, sending ${fallback.template} template instead`);
+        return await this.sendTemplate(normalizedTo, fallback.template, fallback.params, tracking);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Sends an approved message template (works outside the 24-hour window)
+   * @param to - Recipient phone number (will be normalized)
+   * @param key - Template from the registry (config/whatsappTemplates)
+   * @param params - Header image, body variables and URL button suffixes
+   * @param tracking - Ticket the template carries and its redelivery attempt (for delivery tracking)
+   * @returns Message ID
+   * @throws AppError if the parameters don't match the template or the send fails
+   */
+  async sendTemplate(
+    to: string,
+    key: WaTemplateKey,
+    params: WaTemplateParams,
+    tracking?: { ticketId?: string; attempt?: number }
+  ): Promise<WaServiceResponse> {
+    try {
+      // Validate configuration
+      this.validateConfig();
+
+      const template = WA_TEMPLATES[key];
+      const body = params.body || [];
+      const urlButtons = params.urlButtons || [];
+
+      // Fail fast: Meta rejects templates whose parameters don't match the approved layout
+      if (template.headerImage !== !!params.headerImage) {
+        throw new AppError(`Template ${template.name} ${template.headerImage ? 'requires' : 'has no'} header image`, 500);
+      }
+      if (body.length !== template.bodyParams || urlButtons.length !== template.urlButtons) {
+        throw new AppError(
+          `Template ${template.name} expects ${template.bodyParams} body and ${template.urlButtons} URL button parameter(s)`,
+          500
+        );
+      }
+
+      // Normalize phone number
+      const normalizedTo = normalizePhoneNumber(to);
+
+      logger.info(`Sending WhatsApp template ${template.name} to ${normalizedTo}`);
+
+      // Template variables can't contain newlines, tabs or runs of spaces
+      const text = (value: string) => ({
+        type: 'text',
+        text: value.replace(/[\n\t]+/g, ' ').replace(/ {4,}/g, '   ').trim() || '-',
+      });
+
+      const components: any[] = [];
+      if (params.headerImage) {
+        components.push({
+          type: 'header',
+          parameters: [{ type: 'image', image: params.headerImage }],
+        });
+      }
+      if (body.length > 0) {
+        components.push({
+          type: 'body',
+          parameters: body.map(text),
+        });
+      }
+      urlButtons.forEach((suffix, index) => {
+        components.push({
+          type: 'button',
+          sub_type: 'url',
+          index: String(index),
+          parameters: [text(suffix)],
+        });
+      });
+
+      const payload = {
+        messaging_product: 'whatsapp',
+        to: normalizedTo,
+        type: 'template',
+        template: {
+          name: template.name,
+          language: {
+            code: template.language,
+          },
+          components,
+        },
+      };
+
+      const response = await this.sendRequest('/messages', payload, {
+        endpoint: '/messages',
+        recipient: normalizedTo,
+        type: 'TEMPLATE',
+        payload,
+        ticketId: tracking?.ticketId,
+      });
+
+      if (!response.messages || response.messages.length === 0) {
+        throw new AppError('WhatsApp API returned no message ID', 500);
+      }
+
+      const messageId = response.messages[0].id;
+
+      logger.info(`WhatsApp template sent: messageId=${messageId}`);
+
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: normalizedTo,
+        type: 'TEMPLATE',
+        body: `${template.name}: ${body.join(' | ')}`,
+        mediaId: params.headerImage && 'id' in params.headerImage ? params.headerImage.id : undefined,
+        ticketId: tracking?.ticketId,
+        attempt: tracking?.attempt,
+      });
+
+      return { messageId };
+    } catch (error) {
+      logger.error(`Failed to send WhatsApp template ${key} to ${to}:`, error);
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        `Failed to send WhatsApp template: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        500
+      );
+    }
+  }
+
+  /**
+   * Resends a dead-lettered message
+   * @param deadLetterId - The dead letter ID
+   * @returns The dead letter with its replay message ID
+   * @throws AppError if the dead letter is missing, already replayed or the send fails again
+   */
+  async replayDeadLetter(deadLetterId: string): Promise<OutboundDeadLetter> {
+    this.validateConfig();
+
+    const deadLetter = await outboundQueueService.claimDeadLetter(deadLetterId);
+    const payload = deadLetter.payload as any;
+
+    try {
+      const response = await this.sendRequest(deadLetter.endpoint, payload);
+
+      if (!response.messages || response.messages.length === 0) {
+        throw new AppError('WhatsApp API returned no message ID', 500);
+      }
+
+      const messageId = response.messages[0].id;
+
+      logger.info(`Dead letter ${deadLetterId} replayed: messageId=${messageId}`);
+
+      await outboundMessageService.record({
+        waMessageId: messageId,
+        recipient: deadLetter.recipient,
+        type: deadLetter.type,
+        body: payload?.text?.body || payload?.interactive?.body?.text || payload?.image?.caption || payload?.template?.name,
+        mediaId: payload?.image?.id,
+        ticketId: deadLetter.ticketId || undefined,
+      });
+
+      return await outboundQueueService.completeReplay(deadLetterId, { messageId });
+    } catch (error) {
+      await outboundQueueService.completeReplay(deadLetterId, { error });
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
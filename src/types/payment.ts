@@ -22,6 +22,20 @@ export interface IntaSendSTKResponse {
   status: string;
 }
 
+/**
+ * IntaSend payment status (from the status endpoint)
+ * state is one of PENDING, PROCESSING, COMPLETE, FAILED
+ */
+export interface IntaSendPaymentStatus {
+  invoiceId: string;
+  state: string;
+  apiRef?: string;
+  amount?: number;
+  currency?: string;
+  account?: string;
+  failedReason?: string;
+}
+
 /**
  * PesaPal authentication response
  */
@@ -74,6 +88,36 @@ export interface PesaPalOrderResponse {
   status: string;
 }
 
+/**
+ * PesaPal payment link for a submitted order
+ */
+export interface PesaPalPaymentLink {
+  redirectUrl: string;
+  orderTrackingId: string;
+}
+
+/**
+ * PesaPal transaction status response
+ * status_code: 0 = INVALID, 1 = COMPLETED, 2 = FAILED, 3 = REVERSED
+ */
+export interface PesaPalTransactionStatus {
+  payment_method?: string;
+  amount?: number;
+  created_date?: string;
+  confirmation_code?: string;
+  order_tracking_id?: string;
+  payment_status_description?: string;
+  description?: string;
+  message?: string;
+  payment_account?: string;
+  merchant_reference?: string;
+  order_merchant_reference?: string;
+  phone_number?: string;
+  status_code?: number;
+  currency?: string;
+  status?: string;
+}
+
 /**
  * Booking DTO for payment processing
  */
@@ -86,3 +130,27 @@ export interface BookingPaymentDTO {
   lastName: string;
 }
 
+
+/**
+ * A booking whose provider state could not be reconciled automatically
+ */
+export interface ReconciliationMismatch {
+  bookingId: string;
+  paymentReference: string | null;
+  issue: 'AMOUNT_MISMATCH' | 'CURRENCY_MISMATCH' | 'DUPLICATE_PAYMENT' | 'REFERENCE_MISMATCH' | 'STATUS_CHECK_FAILED' | 'COMPLETION_FAILED';
+  details: string;
+}
+
+/**
+ * Outcome of one reconciliation pass against a payment provider
+ */
+export interface ReconciliationReport {
+  provider: 'INTASEND' | 'PESAPAL';
+  startedAt: string;
+  finishedAt: string;
+  checked: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  mismatches: ReconciliationMismatch[];
+}
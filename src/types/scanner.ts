@@ -0,0 +1,121 @@
+import { AppError } from '../utils/AppError';
+
+/**
+ * Reasons a ticket can be refused at the gate
+ */
+export type RedemptionErrorCode =
+  | 'INVALID_CODE'
+  | 'INVALID_SIGNATURE'
+  | 'MANUAL_ENTRY_REQUIRED'
+  | 'REVOKED'
+  | 'NOT_FOUND'
+  | 'NOT_PAID'
+  | 'WRONG_EVENT'
+  | 'EVENT_NOT_LIVE'
+  | 'ALREADY_REDEEMED';
+
+/**
+ * Redemption error class for tickets refused at the gate
+ * Carries the previous redemption details for double scans
+ */
+export class RedemptionError extends AppError {
+  constructor(
+    message: string,
+    public readonly code: RedemptionErrorCode,
+    statusCode: number,
+    public readonly previousRedemption?: {
+      redeemedAt: Date | null;
+      gate: string | null;
+    }
+  ) {
+    super(message, statusCode);
+    this.name = 'RedemptionError';
+    Object.setPrototypeOf(this, RedemptionError.prototype);
+  }
+}
+
+/**
+ * Door staff identity attached to authenticated scanner requests
+ */
+export interface StaffContext {
+  id: string;
+  name: string | null;
+  phoneNumber: string;
+  gate: string;
+  eventId: string;
+}
+
+/**
+ * Successful redemption returned to the scanner
+ */
+export interface RedemptionResult {
+  ticketId: string;
+  uniqueCode: string;
+  redeemedAt: Date;
+  gate: string;
+  holder: {
+    name: string | null;
+    phoneNumber: string;
+  };
+  tier: {
+    id: string;
+    name: string;
+  };
+  event: {
+    id: string;
+    title: string;
+    venue: string;
+    startTime: Date;
+  };
+}
+
+/**
+ * Ticket entry in an offline scanner manifest
+ */
+export interface ManifestTicket {
+  id: string;
+  code: string;
+  tierId: string;
+  tierName: string;
+  redeemed: boolean;
+  redeemedAt: string | null;
+  redeemedGate: string | null;
+}
+
+/**
+ * Offline scanner manifest (serialized and signed as a whole)
+ */
+export interface ScannerManifest {
+  version: 1;
+  eventId: string;
+  eventTitle: string;
+  generatedAt: string;
+  validFrom: string;
+  validUntil: string;
+  tickets: ManifestTicket[];
+}
+
+/**
+ * A scan recorded by a gate device while offline
+ */
+export interface OfflineScan {
+  scanId: string; // Device-generated, unique per device
+  code: string; // Signed QR token or typed ticket code
+  manualEntry?: boolean; // Staff typed the code (required for typed codes)
+  scannedAt: string; // ISO timestamp from the device clock
+}
+
+/**
+ * Server verdict for an uploaded offline scan
+ */
+export interface OfflineScanResult {
+  scanId: string;
+  outcome: 'ACCEPTED' | 'DUPLICATE' | 'CONFLICT' | 'REJECTED';
+  ticketId?: string;
+  reason?: string;
+  // Set for conflicts: the redemption that already stands
+  existingRedemption?: {
+    redeemedAt: Date | null;
+    gate: string | null;
+  };
+}
@@ -9,8 +9,23 @@ export enum BotState {
   SELECTING_QUANTITY = 'SELECTING_QUANTITY',
   CONFIRMING_ORDER = 'CONFIRMING_ORDER',
   AWAITING_PAYMENT_METHOD = 'AWAITING_PAYMENT_METHOD',
+  PROMO_ENTERING_CODE = 'PROMO_ENTERING_CODE',
+  GIFT_ENTERING_PHONE = 'GIFT_ENTERING_PHONE',
+  GIFT_ENTERING_MESSAGE = 'GIFT_ENTERING_MESSAGE',
   AWAITING_PAYMENT_PHONE = 'AWAITING_PAYMENT_PHONE',
   AWAITING_STK_PUSH = 'AWAITING_STK_PUSH',
+  VIEWING_TICKETS = 'VIEWING_TICKETS',
+  TRANSFER_SELECTING_TICKET = 'TRANSFER_SELECTING_TICKET',
+  TRANSFER_ENTERING_PHONE = 'TRANSFER_ENTERING_PHONE',
+  TRANSFER_CONFIRMING = 'TRANSFER_CONFIRMING',
+}
+
+/**
+ * CartItem is one ticket tier in the user's cart
+ */
+export interface CartItem {
+  tierId: string;
+  quantity: number;
 }
 
 /**
@@ -18,12 +33,19 @@ export enum BotState {
  */
 export interface SessionData {
   eventId?: string;
-  tierId?: string;
-  quantity?: number;
-  totalAmount?: number;
+  tierId?: string; // Tier being added to the cart
+  cart?: CartItem[];
+  totalAmount?: number; // Cart total, after any promo discount
+  promoCode?: string; // Promo code applied to the cart
+  discountAmount?: number; // Discount the promo code gives the cart
   paymentMethod?: 'MPESA' | 'CARD';
+  giftRecipient?: string; // Gift recipient's normalized phone number
+  giftMessage?: string; // Buyer's note to the gift recipient
   tempBookingId?: string;
+  stkResends?: number; // STK pushes resent for tempBookingId
   selectedCategory?: string; // Store the selected category to allow going back to events
+  transferTicketId?: string; // Ticket being transferred
+  transferRecipient?: string; // Transfer recipient's normalized phone number
 }
 
 /**
@@ -32,5 +54,10 @@ export interface SessionData {
 export interface Session {
   state: BotState;
   data: SessionData;
+  version: number; // Bumped on every write; transitionSession compares it to detect lost updates
 }
 
+/**
+ * SessionVersion identifies the session a handler read, for compare-and-set transitions
+ */
+export type SessionVersion = Pick<Session, 'state' | 'version'>;
@@ -1,3 +1,5 @@
+import { AppError } from '../utils/AppError';
+
 /**
  * WhatsApp Cloud API Type Definitions
  * Based on Meta WhatsApp Cloud API v18.0
@@ -79,6 +81,14 @@ export interface WaStatus {
   status: 'sent' | 'delivered' | 'read' | 'failed';
   timestamp: string;
   recipient_id: string;
+  errors?: Array<{
+    code: number;
+    title: string;
+    message?: string;
+    error_data?: {
+      details: string;
+    };
+  }>;
 }
 
 /**
@@ -127,3 +137,39 @@ export interface WaServiceResponse {
   messageId: string;
 }
 
+
+/**
+ * Approved message templates (see config/whatsappTemplates)
+ */
+export type WaTemplateKey = 'PAYMENT_CONFIRMED' | 'TICKET' | 'BOOKING_UPDATE';
+
+/**
+ * Parameters for a template's components
+ */
+export interface WaTemplateParams {
+  headerImage?: { id: string } | { link: string };
+  body?: string[]; // {{1}}, {{2}}, ... in order
+  urlButtons?: string[]; // Dynamic URL suffix per URL button, in button order
+}
+
+/**
+ * Template to send instead of a session message when the 24-hour window is closed
+ */
+export interface WaTemplateFallback {
+  template: WaTemplateKey;
+  params: WaTemplateParams;
+}
+
+/**
+ * WhatsApp Cloud API error, carrying Meta's error code
+ */
+export class WhatsAppApiError extends AppError {
+  constructor(
+    message: string,
+    public readonly metaCode?: number
+  ) {
+    super(message, 500);
+    this.name = 'WhatsAppApiError';
+    Object.setPrototypeOf(this, WhatsAppApiError.prototype);
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * KeyedQueue runs async tasks one at a time per key
+ * Tasks for different keys run concurrently; tasks for the same key run in the order
+ * they were queued. A failing task does not block the ones queued after it.
+ */
+export class KeyedQueue {
+  private tails = new Map<string, Promise<void>>();
+
+  /**
+   * Queues a task behind any pending tasks for the same key
+   * @param key - Serialization key (e.g. sender phone number)
+   * @param task - Task to run
+   * @returns The task's result
+   */
+  run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) || Promise.resolve();
+
+    const result = previous.then(task);
+
+    // Chain on settlement so one failure doesn't poison the queue
+    const tail = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.tails.set(key, tail);
+
+    // Drop the key once nothing else has been queued behind this task
+    tail.then(() => {
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Number of keys with pending tasks
+   */
+  get size(): number {
+    return this.tails.size;
+  }
+}
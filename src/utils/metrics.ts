@@ -0,0 +1,38 @@
+/**
+ * In-process counters for operational metrics
+ * Counters reset on restart; expose them via the admin API or scrape the logs
+ */
+const counters = new Map<string, number>();
+
+/**
+ * Builds the counter key, e.g. webhook_signature_rejected{reason="invalid_signature"}
+ */
+function counterKey(name: string, labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) {
+    return name;
+  }
+
+  const labelText = Object.entries(labels)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}="${value}"`)
+    .join(',');
+
+  return `${name}{${labelText}}`;
+}
+
+/**
+ * Increments a counter
+ * @param name - Metric name
+ * @param labels - Optional labels (e.g. { reason: 'invalid_signature' })
+ */
+export function incrementCounter(name: string, labels?: Record<string, string>): void {
+  const key = counterKey(name, labels);
+  counters.set(key, (counters.get(key) || 0) + 1);
+}
+
+/**
+ * Snapshot of all counters
+ */
+export function getCounters(): Record<string, number> {
+  return Object.fromEntries(counters);
+}
@@ -0,0 +1,32 @@
+/**
+ * Pattern for ticket codes issued by TicketService (XXXX-XXXX, hex)
+ * The dash is optional so codes typed by hand (e.g. "ae928x4b") still match
+ */
+export const TICKET_CODE_PATTERN = /^[0-9A-F]{4}-?[0-9A-F]{4}$/i;
+
+/**
+ * Checks whether a string looks like a ticket code
+ * @param value - Raw input (scanner payload or typed text)
+ * @returns true if the value matches the XXXX-XXXX format
+ */
+export function isTicketCode(value: string): boolean {
+  return TICKET_CODE_PATTERN.test(value.replace(/\s/g, ''));
+}
+
+/**
+ * Normalizes a ticket code to the stored format XXXX-XXXX
+ * Handles inputs like: "ae92-8x4b", " AE928X4B ", "AE92 8X4B"
+ *
+ * @param value - Raw ticket code
+ * @returns Uppercase code with a single dash
+ * @throws Error if the value is not a ticket code
+ */
+export function normalizeTicketCode(value: string): string {
+  const cleaned = value.replace(/[\s-]/g, '').toUpperCase();
+
+  if (!/^[0-9A-F]{8}$/.test(cleaned)) {
+    throw new Error(`Invalid ticket code format: ${value}`);
+  }
+
+  return `${cleaned.slice(0, 4)}-${cleaned.slice(4, 8)}`;
+}
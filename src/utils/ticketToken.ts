@@ -0,0 +1,119 @@
+import crypto, { KeyObject } from 'crypto';
+
+/**
+ * Signed ticket tokens (the content of ticket QR codes)
+ *
+ * Format: AK1.<keyId>.<base64url(JSON claims)>.<base64url(Ed25519 signature)>
+ * The signature covers "AK1.<keyId>.<claims>", so a gate device holding only the
+ * public keys can check authenticity with no network access.
+ *
+ * This module has no app dependencies (env, database, logger) so it can be
+ * bundled as-is into scanner apps.
+ */
+
+export const TICKET_TOKEN_VERSION = 'AK1';
+
+/**
+ * Claims carried in a ticket token
+ */
+export interface TicketTokenClaims {
+  tid: string; // Ticket ID
+  eid: string; // Event ID
+  tier: string; // Ticket tier ID
+  code: string; // Human-readable ticket code (XXXX-XXXX)
+  iat: number; // Issued at (unix seconds)
+}
+
+/**
+ * Ticket token error class for malformed or forged tokens
+ */
+export class TicketTokenError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'MALFORMED' | 'UNKNOWN_KEY' | 'BAD_SIGNATURE'
+  ) {
+    super(message);
+    this.name = 'TicketTokenError';
+    Object.setPrototypeOf(this, TicketTokenError.prototype);
+  }
+}
+
+/**
+ * Checks whether a scanned value is a signed ticket token (vs a bare XXXX-XXXX code)
+ */
+export function isTicketToken(value: string): boolean {
+  return value.trim().startsWith(`${TICKET_TOKEN_VERSION}.`);
+}
+
+/**
+ * Signs ticket claims
+ * @param claims - Ticket claims
+ * @param keyId - Identifier of the signing key (must not contain ".")
+ * @param privateKey - Ed25519 private key
+ * @returns Compact signed token
+ */
+export function signTicketToken(
+  claims: TicketTokenClaims,
+  keyId: string,
+  privateKey: KeyObject
+): string {
+  if (keyId.includes('.')) {
+    throw new Error(`Invalid key ID: ${keyId}`);
+  }
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signingInput = `${TICKET_TOKEN_VERSION}.${keyId}.${payload}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), privateKey);
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verifies a ticket token against a set of public keys
+ * @param token - The scanned token
+ * @param publicKeys - Map of key ID -> Ed25519 public key (KeyObject or PEM)
+ * @returns The verified claims
+ * @throws TicketTokenError if the token is malformed, signed by an unknown key or forged
+ */
+export function verifyTicketToken(
+  token: string,
+  publicKeys: Record<string, KeyObject | string>
+): TicketTokenClaims {
+  const parts = token.trim().split('.');
+
+  if (parts.length !== 4 || parts[0] !== TICKET_TOKEN_VERSION) {
+    throw new TicketTokenError('Malformed ticket token', 'MALFORMED');
+  }
+
+  const [version, keyId, payload, signature] = parts;
+  const key = publicKeys[keyId];
+
+  if (!key) {
+    throw new TicketTokenError(`Ticket token signed with unknown key ${keyId}`, 'UNKNOWN_KEY');
+  }
+
+  const publicKey = typeof key === 'string' ? crypto.createPublicKey(key) : key;
+  const isValid = crypto.verify(
+    null,
+    Buffer.from(`${version}.${keyId}.${payload}`),
+    publicKey,
+    Buffer.from(signature, 'base64url')
+  );
+
+  if (!isValid) {
+    throw new TicketTokenError('Ticket token signature is invalid', 'BAD_SIGNATURE');
+  }
+
+  let claims: TicketTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new TicketTokenError('Ticket token claims are not valid JSON', 'MALFORMED');
+  }
+
+  if (!claims.tid || !claims.eid || !claims.code) {
+    throw new TicketTokenError('Ticket token is missing required claims', 'MALFORMED');
+  }
+
+  return claims;
+}
@@ -0,0 +1,77 @@
+/**
+ * TokenBucket limits throughput to a steady rate with a bounded burst
+ * Callers wait in FIFO order for a token, so queued work keeps its order.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private waiters: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param ratePerSecond - Tokens added per second
+   * @param capacity - Maximum burst (defaults to one second's worth)
+   */
+  constructor(
+    private readonly ratePerSecond: number,
+    private readonly capacity: number = ratePerSecond
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Waits for and consumes one token
+   */
+  async take(): Promise<void> {
+    this.refill();
+
+    if (this.waiters.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      this.waiters.push(resolve);
+      this.schedule();
+    });
+  }
+
+  /**
+   * Number of callers waiting for a token
+   */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Wakes waiters as tokens become available
+   */
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const waitMs = Math.max(1, Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+
+      while (this.waiters.length > 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        this.waiters.shift()!();
+      }
+
+      if (this.waiters.length > 0) {
+        this.schedule();
+      }
+    }, waitMs);
+  }
+}